@@ -1,5 +1,5 @@
 import React from 'react';
-import { Thorbis } from 'thorbis';
+import { ThorbisNext } from 'thorbis/next';
 
 export default function RootLayout({
   children,
@@ -9,8 +9,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body>
-        {children}
-        <Thorbis />
+        <ThorbisNext>{children}</ThorbisNext>
       </body>
     </html>
   );
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { TransportRouter } from '../core/transport';
+import { Collector, collectorTransport } from './collector';
+import { validatePayload } from './schema';
+import { MemorySink } from './sinks';
+
+const URL_BASE = 'https://collect.test/api/events';
+
+function post(collector: Collector, body: unknown, query = ''): Promise<Response> {
+  return collector.handle(
+    new Request(`${URL_BASE}${query}`, {
+      method: 'POST',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      headers: { 'content-type': 'application/json' },
+    })
+  );
+}
+
+function batch(ids: string[], batchId = 'b1') {
+  const now = Date.now();
+  return {
+    type: 'batch',
+    sessionId: 's1',
+    batchId,
+    sequence: 1,
+    sentAt: now,
+    events: ids.map((id) => ({ id, type: 'click', timestamp: now, data: {} })),
+  };
+}
+
+function sessionEnd(sendId: string, duration: number) {
+  const now = Date.now();
+  return {
+    type: 'session_end',
+    sessionId: 's1',
+    sendId,
+    timestamp: now,
+    session: {
+      id: 's1',
+      startTime: now - duration,
+      endTime: now,
+      duration,
+      events: [{ type: 'pageView', timestamp: now - duration, data: {} }],
+      data: {},
+    },
+  };
+}
+
+describe('Collector', () => {
+  it('stores batch events and drops repeated ids', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+
+    const first = await post(collector, batch(['e1', 'e2']));
+    const second = await post(collector, batch(['e2', 'e3'], 'b2'));
+
+    expect(await first.json()).toEqual({ accepted: 2, duplicates: 0 });
+    expect(await second.json()).toEqual({ accepted: 1, duplicates: 1 });
+    expect(sink.events.map((event) => event.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('keeps the latest session_end of a session', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+
+    await post(collector, sessionEnd('send-1', 100));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await post(collector, sessionEnd('send-2', 5000));
+
+    const ends = sink.events.filter((event) => event.type === 'session_end');
+    expect(ends).toHaveLength(1);
+    expect(ends[0].data.duration).toBe(5000);
+  });
+
+  it('ignores a retry of the same session_end send', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+    const payload = sessionEnd('send-1', 100);
+
+    await post(collector, payload);
+    const retry = await post(collector, payload);
+
+    expect(await retry.json()).toEqual({ accepted: 0, duplicates: 1 });
+  });
+
+  it('stores a page view once when session_end repeats it', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+    const now = Date.now();
+    const pageView = { id: 'pv1', type: 'page_view', timestamp: now, data: { path: '/' } };
+    const end = sessionEnd('send-1', 100);
+    end.session.events = [{ type: 'page_view', timestamp: now, data: { path: '/' } }];
+
+    await post(collector, { ...batch([]), events: [pageView] });
+    await post(collector, end);
+
+    expect(sink.events.map((event) => event.type)).toEqual(['page_view', 'session_end']);
+    expect(sink.events[1].data.eventCount).toBe(1);
+  });
+
+  it('reassembles chunked beacons in any order', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+    const body = JSON.stringify(batch(['e1', 'e2', 'e3']));
+    const size = Math.ceil(body.length / 3);
+    const parts = [0, 1, 2].map((index) => body.slice(index * size, (index + 1) * size));
+
+    const responses = [];
+    for (const index of [2, 0, 1]) {
+      responses.push(await post(collector, parts[index], `?chunk=c1&index=${index}&total=3`));
+    }
+
+    expect(responses.map((response) => response.status)).toEqual([202, 202, 200]);
+    expect(sink.events.map((event) => event.id)).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('decompresses gzipped bodies from the client transport', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+    const sent: (string | undefined)[] = [];
+    const transport = collectorTransport(collector);
+    const router = new TransportRouter({
+      compression: 'gzip',
+      transport: (request) => {
+        sent.push(request.headers['Content-Encoding']);
+        return transport(request);
+      },
+    });
+    const ids = Array.from({ length: 40 }, (_, index) => `event-${index}`);
+
+    const response = await router.send('events', batch(ids));
+
+    expect(sent).toEqual(['gzip']);
+    expect(response).toEqual({ ok: true, status: 200 });
+    expect(sink.events.map((event) => event.id)).toEqual(ids);
+  });
+
+  it('decompresses a beacon by its encoding param', async () => {
+    const sink = new MemorySink();
+    const collector = new Collector({ sink });
+    const beacons: { url: string; body: Blob }[] = [];
+    const globals = globalThis as any;
+    globals.navigator = { sendBeacon: (url: string, body: Blob) => beacons.push({ url, body }) > 0 };
+    const ids = Array.from({ length: 40 }, (_, index) => `event-${index}`);
+
+    try {
+      await new TransportRouter({ transport: 'beacon', compression: 'gzip' }).send('events', batch(ids));
+    } finally {
+      delete globals.navigator;
+    }
+
+    const [beacon] = beacons;
+    const response = await collector.handle(
+      new Request(new URL(beacon.url, URL_BASE), { method: 'POST', body: await beacon.body.arrayBuffer() })
+    );
+
+    expect(response.status).toBe(200);
+    expect(sink.events.map((event) => event.id)).toEqual(ids);
+  });
+
+  it('rejects invalid chunk parameters', async () => {
+    const collector = new Collector({ sink: new MemorySink() });
+    const response = await post(collector, '{}', '?chunk=c1&index=3&total=2');
+    expect(response.status).toBe(400);
+  });
+
+  it('answers 400 with details for invalid payloads', async () => {
+    const collector = new Collector({ sink: new MemorySink() });
+
+    const malformed = await post(collector, '{not json');
+    const invalid = await post(collector, { type: 'batch', sessionId: 's1' });
+
+    expect(malformed.status).toBe(400);
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details).toContain('batchId must be a string');
+  });
+
+  it('answers 503 and forgets ids when the sink fails, so retries are kept', async () => {
+    const warn = console.warn;
+    console.warn = () => {};
+    let fail = true;
+    const sink = new MemorySink();
+    const collector = new Collector({
+      sink: {
+        write: async (events) => {
+          if (fail) throw new Error('down');
+          await sink.write(events);
+        },
+      },
+    });
+
+    try {
+      expect((await post(collector, batch(['e1']))).status).toBe(503);
+      fail = false;
+      expect((await post(collector, batch(['e1']))).status).toBe(200);
+      expect(sink.events).toHaveLength(1);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
+
+describe('validatePayload', () => {
+  it('accepts each payload type', () => {
+    expect(validatePayload(batch(['e1'])).ok).toBe(true);
+    expect(validatePayload(sessionEnd('send-1', 10)).ok).toBe(true);
+    expect(
+      validatePayload({
+        type: 'replay',
+        sessionId: 's1',
+        sequence: 0,
+        startTime: 1,
+        endTime: 2,
+        encoding: 'json',
+        data: '[]',
+      }).ok
+    ).toBe(true);
+  });
+
+  it('collects every problem', () => {
+    const result = validatePayload({ type: 'batch', events: [{ type: '' }] });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          'sessionId must be a non-empty string',
+          'events[0].id must be a string',
+          'events[0].type must be a non-empty string',
+        ])
+      );
+    }
+  });
+
+  it('rejects unknown types', () => {
+    const result = validatePayload({ type: 'other', sessionId: 's1' });
+    expect(result).toEqual({ ok: false, errors: ['unknown payload type "other"'] });
+  });
+});
@@ -0,0 +1,468 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { concatBytes, decompress } from '../core/compression';
+import type { CompressionFormat } from '../core/compression';
+import type { TransportFunction } from '../core/transport';
+import { validatePayload } from './schema';
+import type { CollectedEvent, CollectorPayload } from './schema';
+import type { CollectorSink } from './sinks';
+
+export type GeoLookup = (
+  ip: string | undefined,
+  request: Request
+) => Record<string, any> | null | Promise<Record<string, any> | null>;
+
+export interface CollectorOptions {
+  sink: CollectorSink;
+  // Limit for the raw body and again for the decompressed body
+  maxBodyBytes?: number;
+  dedupe?: {
+    ttl?: number; // ms an event id is remembered
+    maxEntries?: number;
+  };
+  // How much of the client IP is stored
+  ip?: 'anonymize' | 'full' | 'drop';
+  // Defaults to the country/region/city headers set by Vercel and Cloudflare
+  geo?: GeoLookup;
+  chunkTimeout?: number; // ms to wait for the rest of a chunked beacon
+  debug?: boolean;
+}
+
+export interface CollectorRequestInfo {
+  // Socket address, for runtimes where it is not in a forwarding header
+  ip?: string;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_DEDUPE_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_DEDUPE_ENTRIES = 100000;
+const DEFAULT_CHUNK_TIMEOUT = 60 * 1000;
+const ENCODINGS = ['gzip', 'deflate'];
+
+class CollectorError extends Error {
+  readonly status: number;
+  readonly details?: string[];
+
+  constructor(status: number, message: string, details?: string[]) {
+    super(message);
+    this.name = 'CollectorError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Remembers event ids for a while. Map iteration order is insertion order,
+ * so the oldest entries are evicted first when the cache is full.
+ */
+class DedupeCache {
+  private readonly seen: Map<string, number> = new Map();
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+
+  constructor(ttl: number, maxEntries: number) {
+    this.ttl = ttl;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Marks the id as seen; returns false if it already was.
+   */
+  add(id: string): boolean {
+    const now = Date.now();
+    const expiresAt = this.seen.get(id);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+
+    this.seen.delete(id);
+    this.seen.set(id, now + this.ttl);
+
+    for (const [key, expiry] of this.seen) {
+      if (this.seen.size <= this.maxEntries && expiry > now) break;
+      this.seen.delete(key);
+    }
+    return true;
+  }
+
+  delete(id: string): void {
+    this.seen.delete(id);
+  }
+}
+
+interface PendingChunks {
+  parts: Array<Uint8Array | undefined>;
+  received: number;
+  bytes: number;
+  expiresAt: number;
+}
+
+/**
+ * Reference ingestion endpoint for what the browser client and server SDK
+ * send. Takes a Web `Request` and returns a `Response`, so it runs behind any
+ * framework; see `createRouteHandler` for Next and `toNodeListener` for
+ * plain Node servers.
+ *
+ * Each request is reassembled (chunked beacons), decompressed, validated,
+ * deduplicated by event id, enriched with server time, IP and geo data, and
+ * written to the sink. Status codes follow what the client's delivery layer
+ * expects: 4xx for payloads it should drop, 415 to turn compression off and
+ * 503 for sink failures it should retry.
+ */
+export class Collector {
+  private readonly options: CollectorOptions;
+  private readonly dedupe: DedupeCache;
+  private readonly chunks: Map<string, PendingChunks> = new Map();
+
+  constructor(options: CollectorOptions) {
+    this.options = options;
+    this.dedupe = new DedupeCache(
+      options.dedupe?.ttl ?? DEFAULT_DEDUPE_TTL,
+      options.dedupe?.maxEntries ?? DEFAULT_DEDUPE_ENTRIES
+    );
+  }
+
+  handle = async (request: Request, info: CollectorRequestInfo = {}): Promise<Response> => {
+    try {
+      if (request.method !== 'POST') {
+        throw new CollectorError(405, 'Method not allowed');
+      }
+
+      const body = await this.readBody(request);
+      if (!body) {
+        return this.respond(202, { status: 'partial' });
+      }
+
+      const payload = this.parse(body);
+      const events = await this.toEvents(payload, request, info);
+      const fresh = events.filter((event) => this.dedupe.add(this.dedupeKey(event)));
+
+      if (fresh.length > 0) {
+        try {
+          await this.options.sink.write(fresh);
+        } catch (error) {
+          // Forget the ids so the client's retry is not dropped as a duplicate
+          fresh.forEach((event) => this.dedupe.delete(this.dedupeKey(event)));
+          console.warn('Collector sink failed:', error);
+          throw new CollectorError(503, 'Storage unavailable');
+        }
+      }
+
+      if (this.options.debug) {
+        console.log(`📥 Collected ${fresh.length} events (${events.length - fresh.length} duplicates)`);
+      }
+
+      return this.respond(200, {
+        accepted: fresh.length,
+        duplicates: events.length - fresh.length,
+      });
+    } catch (error) {
+      if (error instanceof CollectorError) {
+        return this.respond(error.status, { error: error.message, details: error.details });
+      }
+      console.warn('Collector failed to handle request:', error);
+      return this.respond(500, { error: 'Internal error' });
+    }
+  };
+
+  /**
+   * The client sends session_end on every hide and unload. Each send keeps
+   * the same row id, so sinks replace the row with the latest one, but is
+   * deduplicated by its send id so later sends are not dropped.
+   */
+  private dedupeKey(event: CollectedEvent): string {
+    return event.type === 'session_end' && event.source === 'session'
+      ? `${event.id}:${event.data.sendId ?? event.timestamp}`
+      : event.id;
+  }
+
+  /**
+   * Returns the decoded body, or null while a chunked beacon is incomplete.
+   */
+  private async readBody(request: Request): Promise<string | null> {
+    const maxBodyBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const declared = Number(request.headers.get('content-length'));
+    if (declared > maxBodyBytes) {
+      throw new CollectorError(413, 'Payload too large');
+    }
+
+    let bytes: Uint8Array | null = new Uint8Array(await request.arrayBuffer());
+    if (bytes.length > maxBodyBytes) {
+      throw new CollectorError(413, 'Payload too large');
+    }
+
+    const params = new URL(request.url, 'http://localhost').searchParams;
+    if (params.has('chunk')) {
+      bytes = this.addChunk(params, bytes);
+      if (!bytes) return null;
+    }
+
+    // Beacons cannot set headers, so the client passes the encoding as a param
+    const encoding = request.headers.get('content-encoding') || params.get('encoding');
+    if (encoding && encoding !== 'identity') {
+      if (!ENCODINGS.includes(encoding)) {
+        throw new CollectorError(415, `Unsupported encoding "${encoding}"`);
+      }
+      try {
+        bytes = await decompress(bytes, encoding as CompressionFormat, maxBodyBytes);
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new CollectorError(413, 'Payload too large');
+        }
+        throw new CollectorError(400, 'Malformed compressed body');
+      }
+    }
+
+    return new TextDecoder().decode(bytes);
+  }
+
+  private addChunk(params: URLSearchParams, bytes: Uint8Array): Uint8Array | null {
+    const id = params.get('chunk') as string;
+    const index = Number(params.get('index'));
+    const total = Number(params.get('total'));
+    const maxBodyBytes = this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+    if (!Number.isInteger(index) || !Number.isInteger(total) || index < 0 || index >= total || total > 64) {
+      throw new CollectorError(400, 'Invalid chunk parameters');
+    }
+
+    this.expireChunks();
+
+    let pending = this.chunks.get(id);
+    if (!pending) {
+      pending = {
+        parts: new Array(total),
+        received: 0,
+        bytes: 0,
+        expiresAt: Date.now() + (this.options.chunkTimeout ?? DEFAULT_CHUNK_TIMEOUT),
+      };
+      this.chunks.set(id, pending);
+    }
+    if (pending.parts.length !== total) {
+      throw new CollectorError(400, 'Chunk total does not match earlier chunks');
+    }
+
+    if (!pending.parts[index]) {
+      pending.parts[index] = bytes;
+      pending.received++;
+      pending.bytes += bytes.length;
+    }
+    // Reassembled beacons get a few times the single-request budget
+    if (pending.bytes > maxBodyBytes * 4) {
+      this.chunks.delete(id);
+      throw new CollectorError(413, 'Payload too large');
+    }
+    if (pending.received < total) return null;
+
+    this.chunks.delete(id);
+    return concatBytes(pending.parts as Uint8Array[]);
+  }
+
+  private expireChunks(): void {
+    const now = Date.now();
+    this.chunks.forEach((pending, id) => {
+      if (pending.expiresAt <= now) this.chunks.delete(id);
+    });
+  }
+
+  private parse(body: string): CollectorPayload {
+    let value: unknown;
+    try {
+      value = JSON.parse(body);
+    } catch {
+      throw new CollectorError(400, 'Body is not valid JSON');
+    }
+
+    const result = validatePayload(value);
+    if (!result.ok) {
+      throw new CollectorError(400, 'Invalid payload', result.errors);
+    }
+    return result.payload;
+  }
+
+  private async toEvents(
+    payload: CollectorPayload,
+    request: Request,
+    info: CollectorRequestInfo
+  ): Promise<CollectedEvent[]> {
+    const receivedAt = Date.now();
+    const ip = this.getClientIp(request, info);
+    const geo = (await (this.options.geo || headerGeo)(ip, request)) || undefined;
+    const base = {
+      sessionId: payload.sessionId,
+      receivedAt,
+      ip: this.formatIp(ip),
+      geo,
+      userAgent: request.headers.get('user-agent') || undefined,
+    };
+
+    if (payload.type === 'batch') {
+      // Shift client timestamps by the client/server clock difference
+      const skew = receivedAt - payload.sentAt;
+      return payload.events.map((event) => ({
+        ...base,
+        id: event.id as string,
+        type: event.type,
+        source: 'batch',
+        anonymousId: event.context?.anonymousId,
+        sessionId: event.context?.sessionId || payload.sessionId,
+        userId: event.userId,
+        timestamp: event.timestamp + skew,
+        data: event.data || {},
+        context: event.context,
+        sampling: event.sampling,
+      }));
+    }
+
+    if (payload.type === 'replay') {
+      // Stored as-is; the replay player decodes chunks itself
+      return [
+        {
+          ...base,
+          id: `${payload.sessionId}:replay:${payload.sequence}`,
+          type: 'replay_chunk',
+          source: 'replay',
+          timestamp: payload.startTime,
+          data: {
+            sequence: payload.sequence,
+            startTime: payload.startTime,
+            endTime: payload.endTime,
+            encoding: payload.encoding,
+            data: payload.data,
+          },
+        },
+      ];
+    }
+
+    if (payload.type === 'insight') {
+      // One row per insight, keyed by its id so a resend dedupes
+      const { insight } = payload;
+      return [
+        {
+          ...base,
+          id: insight.insight_id,
+          type: 'insight',
+          source: 'insight',
+          userId: insight.user_id,
+          timestamp: payload.timestamp,
+          data: insight as unknown as Record<string, any>,
+        },
+      ];
+    }
+
+    const { session } = payload;
+    const skew = receivedAt - payload.timestamp;
+    // Session events were already delivered in batches under their own ids,
+    // so only their count is kept here
+    return [
+      {
+        ...base,
+        id: `${payload.sessionId}:session_end`,
+        type: 'session_end',
+        source: 'session',
+        timestamp: payload.timestamp + skew,
+        data: {
+          sendId: payload.sendId,
+          startTime: session.startTime + skew,
+          endTime: session.endTime + skew,
+          duration: session.duration,
+          eventCount: session.events.length,
+          metadata: payload.metadata,
+          trackers: session.data,
+        },
+      },
+    ];
+  }
+
+  private getClientIp(request: Request, info: CollectorRequestInfo): string | undefined {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim();
+    return (
+      forwarded ||
+      request.headers.get('x-real-ip') ||
+      request.headers.get('cf-connecting-ip') ||
+      info.ip ||
+      undefined
+    );
+  }
+
+  private formatIp(ip: string | undefined): string | undefined {
+    const mode = this.options.ip || 'anonymize';
+    if (!ip || mode === 'drop') return undefined;
+    if (mode === 'full') return ip;
+
+    // Keep the /24 of IPv4 and the /48 of IPv6
+    if (ip.includes('.')) {
+      return ip.replace(/\.\d+$/, '.0');
+    }
+    return `${ip.split(':').slice(0, 3).join(':')}::`;
+  }
+
+  private respond(status: number, body: Record<string, any>): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+/**
+ * Geo data from the headers Vercel and Cloudflare add to incoming requests.
+ */
+export function headerGeo(_ip: string | undefined, request: Request): Record<string, any> | null {
+  const { headers } = request;
+  const country = headers.get('x-vercel-ip-country') || headers.get('cf-ipcountry');
+  if (!country) return null;
+
+  const city = headers.get('x-vercel-ip-city');
+  return {
+    country,
+    region: headers.get('x-vercel-ip-country-region') || undefined,
+    city: city ? decodeURIComponent(city) : undefined,
+  };
+}
+
+/**
+ * Adapts a collector to Node's `http.createServer` request listener.
+ */
+export function toNodeListener(collector: Collector) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([name, value]) => {
+      if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    });
+
+    const response = await collector.handle(
+      new Request(`http://${req.headers.host || 'localhost'}${req.url || '/'}`, {
+        method: req.method,
+        headers,
+        body: req.method === 'POST' ? Buffer.concat(chunks) : undefined,
+      }),
+      { ip: req.socket.remoteAddress }
+    );
+
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(await response.text());
+  };
+}
+
+/**
+ * A client transport that hands payloads straight to an in-process
+ * collector, for running the whole pipeline locally without a network:
+ *
+ *   const sink = new MemorySink();
+ *   new ThorbisServer({ endpoints: { events: '/api/events' }, transport: collectorTransport(new Collector({ sink })) });
+ */
+export function collectorTransport(collector: Collector): TransportFunction {
+  return async (request) => {
+    const response = await collector.handle(
+      new Request(new URL(request.url, 'http://localhost'), {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+      })
+    );
+    return { ok: response.ok, status: response.status };
+  };
+}
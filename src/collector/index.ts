@@ -0,0 +1,20 @@
+export {
+  Collector,
+  collectorTransport,
+  headerGeo,
+  toNodeListener,
+} from './collector';
+export type { CollectorOptions, CollectorRequestInfo, GeoLookup } from './collector';
+export { validatePayload } from './schema';
+export type {
+  BatchPayload,
+  CollectedEvent,
+  CollectorPayload,
+  InsightPayload,
+  ReplayPayload,
+  SessionPayload,
+  ValidationResult,
+} from './schema';
+export { FileSink, MemorySink, SQLiteSink } from './sinks';
+export type { CollectorSink, SQLiteDatabase } from './sinks';
+export { createRouteHandler } from './next';
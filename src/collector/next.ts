@@ -0,0 +1,16 @@
+import { Collector } from './collector';
+import type { CollectorOptions } from './collector';
+
+/**
+ * Route handlers for an App Router endpoint, e.g. `app/api/events/route.ts`:
+ *
+ *   export const { POST } = createRouteHandler({ sink: new FileSink('events.ndjson') });
+ */
+export function createRouteHandler(options: CollectorOptions | Collector) {
+  const collector = options instanceof Collector ? options : new Collector(options);
+
+  return {
+    // NextRequest exposes the client address as `ip` on some platforms
+    POST: (request: Request) => collector.handle(request, { ip: (request as any).ip }),
+  };
+}
@@ -0,0 +1,153 @@
+import type { ReplayChunk } from '../core/replay';
+import type { AIInsight } from '../core/trackers/types';
+import type { AnalyticsEvent, EventBatch } from '../core/types';
+
+export interface BatchPayload extends EventBatch {
+  type: 'batch';
+}
+
+export interface SessionPayload {
+  type: 'session_end';
+  sessionId: string;
+  timestamp: number;
+  sendId?: string;
+  metadata?: Record<string, any>;
+  session: {
+    id: string;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    events: AnalyticsEvent[];
+    data: Record<string, any>;
+  };
+}
+
+export type ReplayPayload = ReplayChunk;
+
+export interface InsightPayload {
+  type: 'insight';
+  sessionId: string;
+  timestamp: number;
+  insight: AIInsight;
+}
+
+export type CollectorPayload = BatchPayload | SessionPayload | ReplayPayload | InsightPayload;
+
+/**
+ * One stored row: a client event plus what the collector learned on receipt.
+ */
+export interface CollectedEvent {
+  id: string;
+  type: string;
+  source: 'batch' | 'session' | 'replay' | 'insight';
+  sessionId: string;
+  anonymousId?: string;
+  userId?: string;
+  timestamp: number; // client clock, corrected for skew when possible
+  receivedAt: number; // server clock
+  data: Record<string, any>;
+  context?: Record<string, any>;
+  sampling?: AnalyticsEvent['sampling'];
+  ip?: string;
+  geo?: Record<string, any>;
+  userAgent?: string;
+}
+
+export type ValidationResult =
+  | { ok: true; payload: CollectorPayload }
+  | { ok: false; errors: string[] };
+
+const MAX_EVENTS_PER_PAYLOAD = 1000;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateEvent(event: unknown, path: string, errors: string[], requireId: boolean): void {
+  if (!isObject(event)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (requireId && typeof event.id !== 'string') errors.push(`${path}.id must be a string`);
+  if (typeof event.type !== 'string' || !event.type) errors.push(`${path}.type must be a non-empty string`);
+  if (typeof event.timestamp !== 'number') errors.push(`${path}.timestamp must be a number`);
+  if (event.data !== undefined && !isObject(event.data)) errors.push(`${path}.data must be an object`);
+}
+
+function validateEvents(events: unknown, path: string, errors: string[], requireId: boolean): void {
+  if (!Array.isArray(events)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  if (events.length > MAX_EVENTS_PER_PAYLOAD) {
+    errors.push(`${path} has more than ${MAX_EVENTS_PER_PAYLOAD} events`);
+    return;
+  }
+  events.forEach((event, index) => validateEvent(event, `${path}[${index}]`, errors, requireId));
+}
+
+/**
+ * Checks that a parsed body is one of the payloads the browser client and
+ * server SDK send. Collects every problem rather than stopping at the first.
+ */
+export function validatePayload(value: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { ok: false, errors: ['payload must be an object'] };
+  }
+  if (typeof value.sessionId !== 'string' || !value.sessionId) {
+    errors.push('sessionId must be a non-empty string');
+  }
+
+  switch (value.type) {
+    case 'batch':
+      if (typeof value.batchId !== 'string') errors.push('batchId must be a string');
+      if (typeof value.sequence !== 'number') errors.push('sequence must be a number');
+      if (typeof value.sentAt !== 'number') errors.push('sentAt must be a number');
+      validateEvents(value.events, 'events', errors, true);
+      break;
+    case 'session_end':
+      if (typeof value.timestamp !== 'number') errors.push('timestamp must be a number');
+      if (value.sendId !== undefined && typeof value.sendId !== 'string') errors.push('sendId must be a string');
+      if (!isObject(value.session)) {
+        errors.push('session must be an object');
+        break;
+      }
+      if (typeof value.session.startTime !== 'number') errors.push('session.startTime must be a number');
+      if (typeof value.session.duration !== 'number') errors.push('session.duration must be a number');
+      // Only counted; the same events arrive in batches with their ids
+      validateEvents(value.session.events, 'session.events', errors, false);
+      if (value.session.data !== undefined && !isObject(value.session.data)) {
+        errors.push('session.data must be an object');
+      }
+      break;
+    case 'replay':
+      if (typeof value.sequence !== 'number') errors.push('sequence must be a number');
+      if (typeof value.startTime !== 'number') errors.push('startTime must be a number');
+      if (typeof value.endTime !== 'number') errors.push('endTime must be a number');
+      if (value.encoding !== 'gzip' && value.encoding !== 'json') {
+        errors.push('encoding must be "gzip" or "json"');
+      }
+      if (typeof value.data !== 'string') errors.push('data must be a string');
+      break;
+    case 'insight':
+      if (typeof value.timestamp !== 'number') errors.push('timestamp must be a number');
+      if (!isObject(value.insight)) {
+        errors.push('insight must be an object');
+        break;
+      }
+      if (typeof value.insight.insight_id !== 'string') errors.push('insight.insight_id must be a string');
+      if (typeof value.insight.insight_type !== 'string') errors.push('insight.insight_type must be a string');
+      if (typeof value.insight.confidence_score !== 'number') {
+        errors.push('insight.confidence_score must be a number');
+      }
+      break;
+    default:
+      errors.push(`unknown payload type "${String(value.type)}"`);
+  }
+
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, payload: value as CollectorPayload };
+}
@@ -0,0 +1,158 @@
+import type { CollectedEvent } from './schema';
+
+/**
+ * Where the collector writes accepted events. A sink that throws makes the
+ * collector answer 503, so the client keeps the payload and retries.
+ *
+ * An event whose id was written before replaces the earlier row: later
+ * `session_end` sends of a session carry its final duration and data.
+ */
+export interface CollectorSink {
+  write(events: CollectedEvent[]): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Keeps events in an array; meant for tests and local development.
+ */
+export class MemorySink implements CollectorSink {
+  readonly events: CollectedEvent[] = [];
+
+  async write(events: CollectedEvent[]): Promise<void> {
+    events.forEach((event) => {
+      const index = this.events.findIndex((existing) => existing.id === event.id);
+      if (index === -1) {
+        this.events.push(event);
+      } else if (event.timestamp >= this.events[index].timestamp) {
+        this.events[index] = event;
+      }
+    });
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+/**
+ * Appends events as newline-delimited JSON. Node only; `node:fs` is loaded
+ * on first write so importing the collector stays edge-safe. The file is
+ * append-only, so readers keep the last line per event id.
+ */
+export class FileSink implements CollectorSink {
+  private readonly path: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  write(events: CollectedEvent[]): Promise<void> {
+    if (events.length === 0) return this.pending;
+
+    const lines = events.map((event) => JSON.stringify(event)).join('\n') + '\n';
+    // Chain appends so concurrent requests never interleave partial lines
+    const write = this.pending.then(async () => {
+      const { appendFile } = await import('node:fs/promises');
+      await appendFile(this.path, lines, 'utf8');
+    });
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+  }
+}
+
+/**
+ * The subset of the better-sqlite3 / bun:sqlite / node:sqlite API the
+ * SQLite sink needs, so no driver is bundled.
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): { run(...params: any[]): unknown };
+}
+
+/**
+ * Stores events in a SQLite table keyed by event id. A row is only replaced
+ * by a newer one, so a late retry of an older send cannot overwrite it.
+ */
+export class SQLiteSink implements CollectorSink {
+  private readonly db: SQLiteDatabase;
+  private readonly table: string;
+  private ready = false;
+
+  constructor(db: SQLiteDatabase, table: string = 'events') {
+    if (!/^\w+$/.test(table)) {
+      throw new Error(`Invalid table name "${table}"`);
+    }
+    this.db = db;
+    this.table = table;
+  }
+
+  async write(events: CollectedEvent[]): Promise<void> {
+    this.migrate();
+
+    const insert = this.db.prepare(
+      `INSERT INTO ${this.table}
+        (id, type, source, session_id, anonymous_id, user_id, timestamp, received_at, ip, user_agent, data, context, geo)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          timestamp = excluded.timestamp,
+          received_at = excluded.received_at,
+          data = excluded.data,
+          context = excluded.context
+        WHERE excluded.timestamp >= ${this.table}.timestamp`
+    );
+
+    this.db.exec('BEGIN');
+    try {
+      events.forEach((event) => {
+        insert.run(
+          event.id,
+          event.type,
+          event.source,
+          event.sessionId,
+          event.anonymousId ?? null,
+          event.userId ?? null,
+          event.timestamp,
+          event.receivedAt,
+          event.ip ?? null,
+          event.userAgent ?? null,
+          JSON.stringify(event.data),
+          event.context ? JSON.stringify(event.context) : null,
+          event.geo ? JSON.stringify(event.geo) : null
+        );
+      });
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private migrate(): void {
+    if (this.ready) return;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        anonymous_id TEXT,
+        user_id TEXT,
+        timestamp INTEGER NOT NULL,
+        received_at INTEGER NOT NULL,
+        ip TEXT,
+        user_agent TEXT,
+        data TEXT NOT NULL,
+        context TEXT,
+        geo TEXT
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_session ON ${this.table} (session_id, timestamp);
+    `);
+    this.ready = true;
+  }
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  drawHeatmap,
+  drawScrollMap,
+  drawSegments,
+  exportHeatmapPng,
+  filterHeatmap,
+  segmentHeatmap,
+  sizeCanvas,
+} from '../core/heatmap';
+import type { DeviceBucket, HeatmapMode, HeatmapSnapshot } from '../core/heatmap';
+import { ThorbisInstanceContext } from './context';
+
+export interface HeatmapOverlayProps {
+  // Defaults to what the engagement tracker has collected on this page
+  data?: HeatmapSnapshot;
+  mode?: HeatmapMode;
+  device?: DeviceBucket;
+  radius?: number;
+  opacity?: number;
+  // How often live data is re-read, in ms; ignored when `data` is given
+  refreshInterval?: number;
+  onClose?: () => void;
+}
+
+const MODES: HeatmapMode[] = ['click', 'move', 'hover', 'scroll'];
+
+const RANGES: Array<{ label: string; ms: number | null }> = [
+  { label: 'All time', ms: null },
+  { label: 'Last 5 minutes', ms: 300000 },
+  { label: 'Last hour', ms: 3600000 },
+  { label: 'Last 24 hours', ms: 86400000 },
+  { label: 'Last 7 days', ms: 604800000 },
+];
+
+// Live data only grows (or rolls over at its cap), so the tail shows a change
+function isUnchanged(previous: HeatmapSnapshot | null, next: HeatmapSnapshot | null): boolean {
+  if (!previous || !next) return previous === next;
+  return (
+    previous.points.length === next.points.length &&
+    previous.points[previous.points.length - 1]?.timestamp === next.points[next.points.length - 1]?.timestamp &&
+    previous.scroll.length === next.scroll.length &&
+    previous.scroll[previous.scroll.length - 1]?.depth === next.scroll[next.scroll.length - 1]?.depth
+  );
+}
+
+function documentSize() {
+  const root = document.documentElement;
+  return { width: root.scrollWidth, height: root.scrollHeight };
+}
+
+/**
+ * Draws click, move and hover heatmaps or a scroll-depth map over the live
+ * page, with filters by device width and time range. Points are stored
+ * relative to the document, so the overlay lines up at any scroll position.
+ */
+export const HeatmapOverlay = ({
+  data,
+  mode: initialMode = 'click',
+  device: initialDevice,
+  radius = 25,
+  opacity = 0.6,
+  refreshInterval = 2000,
+  onClose,
+}: HeatmapOverlayProps) => {
+  const analytics = useContext(ThorbisInstanceContext);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [mode, setMode] = useState<HeatmapMode>(initialMode);
+  const [device, setDevice] = useState<DeviceBucket | ''>(initialDevice || '');
+  const [range, setRange] = useState(0);
+  const [snapshot, setSnapshot] = useState<HeatmapSnapshot | null>(data || null);
+  const [count, setCount] = useState(0);
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => setMounted(true), []);
+
+  useEffect(() => {
+    if (data) {
+      setSnapshot(data);
+      return;
+    }
+    if (!analytics) return;
+
+    // Keeping the previous snapshot skips the redraw when nothing was added
+    const read = () => {
+      const next = analytics.getHeatmap();
+      setSnapshot((previous) => (isUnchanged(previous, next) ? previous : next));
+    };
+    read();
+    const interval = setInterval(read, refreshInterval);
+    return () => clearInterval(interval);
+  }, [analytics, data, refreshInterval]);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !snapshot) return;
+
+    const ms = RANGES[range].ms;
+    const filtered = filterHeatmap(snapshot, {
+      device: device || undefined,
+      from: ms === null ? undefined : Date.now() - ms,
+      // Live data only covers this page; supplied data may span several
+      path: data ? undefined : window.location.pathname,
+    });
+    const { width, height } = documentSize();
+    sizeCanvas(canvas, width, height);
+
+    if (mode === 'scroll') {
+      drawScrollMap(canvas, filtered.scroll, { opacity });
+      setCount(filtered.scroll.length);
+      return;
+    }
+
+    const points = filtered.points.filter((point) => point.type === mode);
+    drawHeatmap(canvas, points, { radius, opacity });
+    drawSegments(canvas, segmentHeatmap({ points, scroll: filtered.scroll }));
+    setCount(points.length);
+  }, [snapshot, mode, device, range, radius, opacity, data, mounted]);
+
+  useEffect(() => {
+    render();
+    window.addEventListener('resize', render);
+    return () => window.removeEventListener('resize', render);
+  }, [render]);
+
+  const handleExport = async () => {
+    if (!canvasRef.current) return;
+    try {
+      const blob = await exportHeatmapPng(canvasRef.current, {
+        caption: `${window.location.pathname} · ${mode} · ${device || 'all devices'} · ${RANGES[range].label} · ${count} ${mode === 'scroll' ? 'views' : 'points'}`,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `heatmap-${mode}-${new Date().toISOString().slice(0, 10)}.png`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.warn('Failed to export heatmap:', error);
+    }
+  };
+
+  // Portalled to the body so the canvas is positioned against the document
+  if (!mounted) return null;
+
+  return createPortal(
+    <>
+      <canvas
+        ref={canvasRef}
+        className="thorbis-heatmap"
+        style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none', zIndex: 2147483646 }}
+      />
+
+      <div
+        className="thorbis-heatmap-controls"
+        style={{
+          position: 'fixed',
+          right: 16,
+          bottom: 16,
+          zIndex: 2147483647,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 8,
+          padding: 8,
+          borderRadius: 8,
+          background: '#fff',
+          boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
+          font: '13px sans-serif',
+        }}
+      >
+        <select value={mode} onChange={(event) => setMode(event.target.value as HeatmapMode)} aria-label="Heatmap type">
+          {MODES.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+
+        <select value={device} onChange={(event) => setDevice(event.target.value as DeviceBucket | '')} aria-label="Device">
+          <option value="">All devices</option>
+          <option value="mobile">Mobile</option>
+          <option value="tablet">Tablet</option>
+          <option value="desktop">Desktop</option>
+        </select>
+
+        <select value={range} onChange={(event) => setRange(Number(event.target.value))} aria-label="Time range">
+          {RANGES.map(({ label }, index) => (
+            <option key={label} value={index}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        <span style={{ fontVariantNumeric: 'tabular-nums' }}>{count}</span>
+
+        <button type="button" onClick={handleExport}>
+          Export PNG
+        </button>
+        {onClose && (
+          <button type="button" onClick={onClose} aria-label="Close heatmap">
+            ×
+          </button>
+        )}
+      </div>
+    </>,
+    document.body
+  );
+};
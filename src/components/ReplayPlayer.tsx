@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { decodeReplayChunks } from '../core/replay';
+import type { ReplayChunk, ReplayEvent } from '../core/replay';
+import { Replayer } from '../core/replayer';
+import type { AnalyticsEvent } from '../core/types';
+
+export interface ReplayPlayerProps {
+  // Either raw chunks as stored by the collector, or already decoded events
+  chunks?: ReplayChunk[];
+  events?: ReplayEvent[];
+  // Tracked events from the same session, shown as markers on the timeline
+  trackedEvents?: AnalyticsEvent[];
+  speeds?: number[];
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Plays back a session replay with a timeline of the session's tracked
+ * events; clicking a marker jumps to that moment.
+ */
+export const ReplayPlayer = ({ chunks, events, trackedEvents = [], speeds = [1, 2, 4] }: ReplayPlayerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [replayer, setReplayer] = useState<Replayer | null>(null);
+  const [decoded, setDecoded] = useState<ReplayEvent[] | null>(events || null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(speeds[0]);
+
+  useEffect(() => {
+    if (events) {
+      setDecoded(events);
+      return;
+    }
+    if (!chunks) return;
+
+    let cancelled = false;
+    decodeReplayChunks(chunks)
+      .then((result) => {
+        if (!cancelled) setDecoded(result);
+      })
+      .catch((error) => console.warn('Failed to decode replay:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chunks, events]);
+
+  useEffect(() => {
+    if (!decoded || !containerRef.current) return;
+
+    const instance = new Replayer(containerRef.current, decoded);
+    const unsubscribe = instance.onTick((current, isPlaying) => {
+      setTime(current);
+      setPlaying(isPlaying);
+    });
+    setReplayer(instance);
+
+    return () => {
+      unsubscribe();
+      instance.destroy();
+      setReplayer(null);
+    };
+  }, [decoded]);
+
+  useEffect(() => {
+    replayer?.setSpeed(speed);
+  }, [replayer, speed]);
+
+  const duration = replayer?.duration || 0;
+  const startTime = replayer?.startTime || 0;
+  const markers = trackedEvents.filter(
+    (event) => event.timestamp >= startTime && event.timestamp <= startTime + duration
+  );
+
+  return (
+    <div className="thorbis-replay">
+      <div ref={containerRef} style={{ position: 'relative', overflow: 'hidden', background: '#f4f4f5' }} />
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '8px 0' }}>
+        <button type="button" onClick={() => (playing ? replayer?.pause() : replayer?.play())} disabled={!replayer}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+
+        <div style={{ position: 'relative', flex: 1 }}>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            value={time}
+            onChange={(event) => replayer?.seek(Number(event.target.value))}
+            style={{ width: '100%' }}
+            aria-label="Replay position"
+          />
+          {markers.map((event, index) => (
+            <button
+              key={event.id || index}
+              type="button"
+              title={event.type}
+              onClick={() => replayer?.seek(event.timestamp - startTime)}
+              style={{
+                position: 'absolute',
+                top: -6,
+                left: `${duration ? ((event.timestamp - startTime) / duration) * 100 : 0}%`,
+                width: 6,
+                height: 6,
+                padding: 0,
+                border: 0,
+                borderRadius: '50%',
+                background: '#6366f1',
+                cursor: 'pointer',
+              }}
+            />
+          ))}
+        </div>
+
+        <span style={{ fontVariantNumeric: 'tabular-nums' }}>
+          {formatTime(time)} / {formatTime(duration)}
+        </span>
+
+        <select value={speed} onChange={(event) => setSpeed(Number(event.target.value))} aria-label="Speed">
+          {speeds.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
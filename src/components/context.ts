@@ -0,0 +1,53 @@
+import { createContext } from 'react';
+import type { ThorbisAnalytics } from '../core/analytics';
+
+type PendingCall = (analytics: ThorbisAnalytics) => unknown;
+
+/**
+ * Stable handle the provider hands to hooks. Child effects run before the
+ * provider's own effect creates the instance, so calls made before then are
+ * held and replayed once it is attached.
+ */
+export class AnalyticsHandle {
+  private instance: ThorbisAnalytics | null = null;
+  private pending: PendingCall[] = [];
+  private readonly MAX_PENDING = 100;
+
+  get current(): ThorbisAnalytics | null {
+    return this.instance;
+  }
+
+  attach(instance: ThorbisAnalytics): void {
+    this.instance = instance;
+    this.pending.splice(0).forEach((call) => this.invoke(call, instance));
+  }
+
+  detach(): void {
+    this.instance = null;
+  }
+
+  run(call: PendingCall): void {
+    if (this.instance) {
+      this.invoke(call, this.instance);
+    } else if (this.pending.length < this.MAX_PENDING) {
+      this.pending.push(call);
+    }
+  }
+
+  private invoke(call: PendingCall, instance: ThorbisAnalytics): void {
+    try {
+      const result = call(instance);
+      // track(), page() and identify() reject on delivery errors
+      if (result instanceof Promise) {
+        result.catch((error) => console.warn('Thorbis call failed:', error));
+      }
+    } catch (error) {
+      console.warn('Thorbis call failed:', error);
+    }
+  }
+}
+
+export const ThorbisContext = createContext<AnalyticsHandle | null>(null);
+
+// Separate from the handle so only useThorbis() consumers re-render on attach
+export const ThorbisInstanceContext = createContext<ThorbisAnalytics | null>(null);
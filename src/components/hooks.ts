@@ -0,0 +1,193 @@
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { ThorbisAnalytics } from '../core/analytics';
+import type { FunnelState } from '../core/funnels';
+import type { AIInsight } from '../core/trackers/types';
+import type { EventProperties, UserTraits } from '../core/types';
+import { ThorbisContext, ThorbisInstanceContext } from './context';
+import type { AnalyticsHandle } from './context';
+
+export interface ImpressionOptions {
+  threshold?: number; // share of the element that must be visible, 0-1
+  duration?: number; // ms it must stay visible before counting
+  once?: boolean;
+}
+
+function useHandle(hook: string): AnalyticsHandle {
+  const handle = useContext(ThorbisContext);
+  if (!handle) {
+    throw new Error(`${hook} must be used inside <Thorbis>`);
+  }
+  return handle;
+}
+
+/**
+ * The core instance, or null until the provider has mounted.
+ */
+export function useThorbis(): ThorbisAnalytics | null {
+  useHandle('useThorbis');
+  return useContext(ThorbisInstanceContext);
+}
+
+export function useTrack(): (event: string, properties?: EventProperties) => void {
+  const handle = useHandle('useTrack');
+  return useCallback(
+    (event, properties) => handle.run((analytics) => analytics.track(event, properties)),
+    [handle]
+  );
+}
+
+export function useIdentify(): (userId: string, traits?: UserTraits) => void {
+  const handle = useHandle('useIdentify');
+  return useCallback(
+    (userId, traits) => handle.run((analytics) => analytics.identify(userId, traits)),
+    [handle]
+  );
+}
+
+/**
+ * Records a page view on mount and again whenever the properties change.
+ * With `navigation`, each change after the first is a client-side route
+ * change, so per-page metrics start over before its page view.
+ */
+export function usePageView(
+  properties: EventProperties = {},
+  { navigation = false }: { navigation?: boolean } = {}
+): void {
+  const handle = useHandle('usePageView');
+  const key = JSON.stringify(properties);
+  // Refs survive StrictMode's simulated remount, so this stops a double count
+  const lastKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (lastKey.current === key) return;
+    const routeChange = navigation && lastKey.current !== null;
+    lastKey.current = key;
+    handle.run((analytics) => {
+      if (routeChange) analytics.resetPageMetrics();
+      return analytics.page(JSON.parse(key));
+    });
+  }, [handle, key, navigation]);
+}
+
+/**
+ * Tracks an `impression` event when the referenced element has been visible
+ * past the threshold for the given duration.
+ */
+export function useImpression(
+  ref: RefObject<Element>,
+  properties: EventProperties = {},
+  { threshold = 0.5, duration = 0, once = true }: ImpressionOptions = {}
+): void {
+  const handle = useHandle('useImpression');
+  const propertiesRef = useRef(properties);
+  propertiesRef.current = properties;
+  // Survives observer teardown, so timers already pending cannot fire twice
+  const seen = useRef(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+
+    let timer: NodeJS.Timeout | undefined;
+    let visibleRatio = 0;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        visibleRatio = entry.intersectionRatio;
+        if (!entry.isIntersecting) {
+          clearTimeout(timer);
+          timer = undefined;
+          return;
+        }
+        // Still visible from an earlier callback; keep that timer running
+        if (timer || (once && seen.current)) return;
+
+        timer = setTimeout(() => {
+          timer = undefined;
+          if (once) {
+            if (seen.current) return;
+            seen.current = true;
+            observer.disconnect();
+          }
+          handle.run((analytics) =>
+            analytics.track('impression', {
+              ...propertiesRef.current,
+              visibleRatio,
+            })
+          );
+        }, duration);
+      },
+      { threshold }
+    );
+
+    observer.observe(element);
+    return () => {
+      clearTimeout(timer);
+      observer.disconnect();
+    };
+  }, [handle, ref, threshold, duration, once]);
+}
+
+/**
+ * Current progress through a funnel, updated as steps are reached.
+ * Undefined until the provider has mounted or if the funnel is unknown.
+ */
+export function useFunnel(id: string): FunnelState | undefined {
+  useHandle('useFunnel');
+  const analytics = useContext(ThorbisInstanceContext);
+  const [state, setState] = useState<FunnelState | undefined>(() => analytics?.getFunnelState(id));
+
+  useEffect(() => {
+    if (!analytics) return;
+
+    setState(analytics.getFunnelState(id));
+    return analytics.onFunnelChange((next) => {
+      if (next.id === id) setState(next);
+    });
+  }, [analytics, id]);
+
+  return state;
+}
+
+/**
+ * The visitor's variant for an experiment. The exposure is logged after the
+ * component commits, so only variants that were actually rendered count.
+ * Pass `expose: false` to read the variant without rendering it yet.
+ */
+export function useExperiment(
+  key: string,
+  { expose = true }: { expose?: boolean } = {}
+): string | null {
+  useHandle('useExperiment');
+  const analytics = useContext(ThorbisInstanceContext);
+  // Render only reads; the assignment is stored and exposed once committed
+  const variant = analytics ? analytics.peekVariant(key) : null;
+
+  useEffect(() => {
+    if (!analytics || !variant) return;
+    if (expose) {
+      analytics.exposeExperiment(key);
+    } else {
+      analytics.getVariant(key);
+    }
+  }, [analytics, key, variant, expose]);
+
+  return variant;
+}
+
+/**
+ * Insights raised since the component mounted, newest first. Requires the
+ * `insights` option on the provider.
+ */
+export function useInsights(): AIInsight[] {
+  useHandle('useInsights');
+  const analytics = useContext(ThorbisInstanceContext);
+  const [insights, setInsights] = useState<AIInsight[]>([]);
+
+  useEffect(() => {
+    if (!analytics) return;
+    return analytics.onInsight((insight) => setInsights((current) => [insight, ...current]));
+  }, [analytics]);
+
+  return insights;
+}
@@ -1,57 +1,111 @@
-import { useEffect, useRef } from 'react';
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
 import { ThorbisAnalytics } from '../core/analytics';
+import type { AnalyticsConfig } from '../types';
+import { AnalyticsHandle, ThorbisContext, ThorbisInstanceContext } from './context';
+
+export {
+  useExperiment,
+  useFunnel,
+  useIdentify,
+  useImpression,
+  useInsights,
+  usePageView,
+  useThorbis,
+  useTrack,
+} from './hooks';
+export type { ImpressionOptions } from './hooks';
+export { ReplayPlayer } from './ReplayPlayer';
+export type { ReplayPlayerProps } from './ReplayPlayer';
+export { HeatmapOverlay } from './HeatmapOverlay';
+export type { HeatmapOverlayProps } from './HeatmapOverlay';
+
+export interface ThorbisProps extends Partial<AnalyticsConfig> {
+  children?: ReactNode;
+}
+
+// Trackers that call third parties (demographics' geo lookup), record
+// pointer activity (heatmaps) or only apply to some sites stay opt-in
+const DEFAULT_OPTIONS: AnalyticsConfig['options'] = {
+  pageViews: true,
+  navigation: true,
+  engagement: true,
+  forms: true,
+  heatmaps: false,
+  seo: true,
+  project: true,
+  performance: true,
+  demographics: false,
+  error: true,
+  media: true,
+  search: true,
+  attribution: false,
+  ecommerce: false,
+};
 
-export const Thorbis = () => {
-  const analyticsRef = useRef<ThorbisAnalytics | null>(null);
+interface Mounted {
+  analytics: ThorbisAnalytics;
+  ready: Promise<void>;
+  disposeTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Provides one ThorbisAnalytics instance to everything below it. Config is
+ * read once, on first mount.
+ *
+ * StrictMode mounts, unmounts and remounts effects in development. Disposal
+ * is deferred by a tick so that remount picks the same instance back up
+ * instead of starting every tracker twice.
+ */
+export const Thorbis = ({ children, ...config }: ThorbisProps) => {
+  const [handle] = useState(() => new AnalyticsHandle());
+  const mounted = useRef<Mounted | null>(null);
+  const [initialConfig] = useState(config);
+  const [instance, setInstance] = useState<ThorbisAnalytics | null>(null);
 
   useEffect(() => {
-		if (analyticsRef.current) return;
-
-		const initAnalytics = async () => {
-			try {
-				const analytics = new ThorbisAnalytics({
-					sessionId: Math.random().toString(36).slice(2),
-					debug: true,
-					options: {
-						pageViews: true,
-						navigation: true,
-						engagement: true,
-						forms: true,
-						heatmaps: true,
-						seo: true,
-						project: true,
-						performance: true,
-						demographics: true,
-						error: true,
-						media: true,
-						search: true,
-					},
-					batchConfig: {
-						maxBatchSize: 10,
-						flushInterval: 5000,
-					},
-				});
-
-				analyticsRef.current = analytics;
-				await analytics.init();
-			} catch (error) {
-				console.error("❌ Thorbis Error: Analytics initialization failed", error);
-			}
-		};
-
-		initAnalytics();
-
-		return () => {
-			if (analyticsRef.current) {
-				analyticsRef.current.cleanup();
-				analyticsRef.current = null;
-			}
-		};
-  }, []);
+    if (mounted.current) {
+      clearTimeout(mounted.current.disposeTimer);
+      mounted.current.disposeTimer = undefined;
+    } else {
+      const analytics = new ThorbisAnalytics({
+        sessionId: Math.random().toString(36).slice(2),
+        debug: false,
+        ...initialConfig,
+        options: { ...DEFAULT_OPTIONS, ...initialConfig.options },
+        batchConfig: {
+          maxBatchSize: 10,
+          flushInterval: 5000,
+          ...initialConfig.batchConfig,
+        },
+      });
+
+      const ready = analytics.init().catch((error) => {
+        console.error('❌ Thorbis Error: Analytics initialization failed', error);
+      });
+      mounted.current = { analytics, ready };
+    }
+
+    const current = mounted.current;
+    handle.attach(current.analytics);
+    setInstance(current.analytics);
+
+    return () => {
+      current.disposeTimer = setTimeout(() => {
+        mounted.current = null;
+        handle.detach();
+        setInstance(null);
+        // Trackers still starting would otherwise outlive cleanup
+        current.ready.then(() => current.analytics.cleanup());
+      }, 0);
+    };
+  }, [handle, mounted, initialConfig]);
 
   return (
-		<div className="image-container">
-			<img src="https://picsum.photos/800/400" alt="Description" width={800} height={400} loading="eager" style={{ maxWidth: "100%", height: "auto" }} />
-		</div>
+    <ThorbisContext.Provider value={handle}>
+      <ThorbisInstanceContext.Provider value={instance}>{children}</ThorbisInstanceContext.Provider>
+    </ThorbisContext.Provider>
   );
 };
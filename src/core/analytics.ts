@@ -1,6 +1,47 @@
 import Analytics from 'analytics';
 import type { AnalyticsConfig } from '../types';
+import { EventQueue } from './queue';
+import { ConsentManager } from './consent';
+import type { ConsentCategory, ConsentListener, ConsentState } from './consent';
+import { CROSS_DOMAIN_STORAGE_KEYS, CrossDomainLinker } from './crossdomain';
+import type { EcommerceEventMap, EcommerceEventType } from './ecommerce';
+import type { LinkToken } from './crossdomain';
+import { DeliveryManager } from './delivery';
+import { EXPERIMENT_STORAGE_KEYS, ExperimentManager } from './experiments';
+import type { ExperimentDefinition } from './experiments';
+import { FUNNEL_STORAGE_KEYS, FunnelManager } from './funnels';
+import type { HeatmapSnapshot } from './heatmap';
+import type { FunnelDefinition, FunnelListener, FunnelState } from './funnels';
+import {
+  IDENTITY_COOKIE,
+  IDENTITY_STORAGE_KEYS,
+  IdentityManager,
+  encodeIdentity,
+  randomId,
+} from './identity';
+import type { Identity } from './identity';
+import { INSIGHT_STORAGE_KEYS, InsightEngine } from './insights';
+import type { InsightListener } from './insights';
+import type { DeadLetter, DeliveryStats, DeliveryStatusListener } from './delivery';
+import { Outbox } from './outbox';
+import { MiddlewarePipeline } from './middleware';
+import { Redactor } from './redaction';
+import type { EventMiddleware, MiddlewareDefinition } from './middleware';
+import { TrackerRegistry } from './registry';
+import type { TrackerDefinition } from './registry';
+import { Sampler } from './sampling';
+import { TransportRouter } from './transport';
+import type { EventKind } from './transport';
+import type {
+  AnalyticsEvent,
+  EventBatch,
+  EventProperties,
+  UserTraits,
+} from './types';
 import { BaseTracker } from './trackers/base';
+import type { EngagementTracker } from './trackers/engagement';
+import type { SessionTracker } from './trackers/session';
+import type { AIInsight } from './trackers/types';
 
 interface AnalyticsInstanceConfig {
   app?: string;
@@ -16,20 +57,41 @@ type ImportantEventType =
   | 'user_interaction'
   | 'error'
   | 'conversion'
+  | 'purchase'
   | 'performance';
 
-interface AnalyticsEvent {
-  type: string;
-  data: Record<string, any>;
-  timestamp: number;
-}
-
 export class ThorbisAnalytics {
   private config: AnalyticsConfig;
   private analytics: any;
   private trackers: Map<string, BaseTracker> = new Map();
-  private eventQueue: AnalyticsEvent[] = [];
-  private flushTimeout: NodeJS.Timeout | null = null;
+  // Trackers still loading or initializing, so a consent change mid-start
+  // does not start them a second time
+  private startingTrackers: Map<string, Promise<boolean>> = new Map();
+  private registry: TrackerRegistry;
+  private resolvedTrackers: TrackerDefinition[] | null = null;
+  private sampledOut: boolean = false;
+  private consent: ConsentManager;
+  private pendingEvents: Array<{
+    type: string;
+    data: Record<string, any>;
+    tracker?: string;
+  }> = [];
+  private readonly MAX_PENDING_EVENTS = 500;
+  private outbox: Outbox | null = null;
+  private eventQueue: EventQueue;
+  private transport: TransportRouter;
+  private delivery: DeliveryManager;
+  private sampler: Sampler;
+  private redactor: Redactor | null;
+  private superProperties: EventProperties = {};
+  private identity: IdentityManager;
+  private linker: CrossDomainLinker | null;
+  private linkedSession: LinkToken['session'] | null = null;
+  private funnels: FunnelManager;
+  private experiments: ExperimentManager;
+  private insights: InsightEngine | null = null;
+  private middleware: MiddlewarePipeline;
+  private pipelineTail: Promise<void> = Promise.resolve();
   private readonly maxBatchSize: number;
   private readonly flushInterval: number;
   private analyticsEvents: AnalyticsEvent[] = [];
@@ -66,6 +128,10 @@ export class ThorbisAnalytics {
         {
           name: 'thorbis-plugin',
           page: ({ payload }: { payload?: any }) => {
+            if (payload?.properties) {
+              this.record('page_view', payload.properties);
+            }
+
             if (this.analyticsEvents && payload?.properties) {
               this.analyticsEvents.push({
                 type: 'page_view',
@@ -79,7 +145,22 @@ export class ThorbisAnalytics {
               });
             }
           },
+          identify: ({ payload }: { payload?: any }) => {
+            this.record('identify', {
+              userId: payload?.userId,
+              anonymousId: this.getAnonymousId(),
+              traits: payload?.traits || {},
+            });
+          },
           track: ({ payload }: { payload?: any }) => {
+            if (payload?.event) {
+              this.record(
+                payload.event,
+                payload.properties || {},
+                payload.options?.tracker
+              );
+            }
+
             if (
               payload?.event &&
               this.isImportantEvent(payload.event) &&
@@ -100,10 +181,68 @@ export class ThorbisAnalytics {
     };
 
     this.analytics = Analytics(analyticsConfig);
+    this.consent = new ConsentManager(config.consent);
+    this.consent.onChange(this.handleConsentChange);
+    this.identity = new IdentityManager({
+      fallbackId: this.config.sessionId,
+      // No persistent identifier is written before analytics consent
+      canPersist: () => this.consent.isGranted('analytics'),
+    });
+    this.registry = new TrackerRegistry(config.trackers);
+    this.middleware = new MiddlewarePipeline(config.middleware, this.config.debug);
+    this.redactor =
+      config.redaction === false
+        ? null
+        : new Redactor(config.redaction === true ? {} : config.redaction);
+    this.experiments = new ExperimentManager(config.experiments, {
+      getAnonymousId: () => this.getAnonymousId(),
+      canPersist: () => this.consent.isGranted('analytics'),
+    });
+    this.linker = config.crossDomain
+      ? new CrossDomainLinker(config.crossDomain, {
+          canPersist: () => this.consent.isGranted('analytics'),
+        })
+      : null;
+    this.sampler = new Sampler(
+      config.sampling,
+      config.throttle,
+      this.getAnonymousId()
+    );
 
     // Default batch size of 10 events or flush every 5 seconds
     this.maxBatchSize = config.batchConfig?.maxBatchSize || 10;
     this.flushInterval = config.batchConfig?.flushInterval || 5000;
+    this.transport = new TransportRouter({
+      transport: config.transport,
+      endpoints: config.endpoints,
+      compression: config.compression,
+      debug: this.config.debug,
+    });
+    this.delivery = new DeliveryManager({
+      transport: this.transport,
+      retry: config.retry,
+      debug: this.config.debug,
+    });
+    this.eventQueue = new EventQueue({
+      sessionId: this.config.sessionId,
+      maxBatchSize: this.maxBatchSize,
+      flushInterval: this.flushInterval,
+      send: this.sendBatch,
+      debug: this.config.debug,
+    });
+
+    this.setupOutbox();
+    this.funnels = new FunnelManager(config.funnels, {
+      emit: (type, data) => this.record(type, data),
+      canPersist: () => this.consent.isGranted('analytics'),
+    });
+    if (config.insights) {
+      this.insights = new InsightEngine(config.insights === true ? {} : config.insights, {
+        getUserId: () => this.identity.getUserId() || this.getAnonymousId(),
+        canPersist: () => this.consent.isGranted('analytics'),
+      });
+      this.insights.onInsight(this.handleInsight);
+    }
 
     // Add event listeners for session end
     if (typeof window !== 'undefined') {
@@ -111,6 +250,37 @@ export class ThorbisAnalytics {
     }
   }
 
+  /**
+   * Persists undeliverable payloads when IndexedDB storage is requested.
+   * IndexedDB is storage too, so it waits for analytics consent.
+   */
+  private setupOutbox(): void {
+    if (
+      this.outbox ||
+      this.config.storageType !== 'indexedDB' ||
+      typeof window === 'undefined' ||
+      !this.consent.isGranted('analytics')
+    ) {
+      return;
+    }
+
+    const outbox = new Outbox({
+      maxBytes: this.config.outbox?.maxBytes,
+      maxAge: this.config.outbox?.maxAge,
+      debug: this.config.debug,
+    });
+    this.outbox = outbox;
+    this.delivery.setOutbox(outbox);
+    outbox.open().then((opened) => {
+      if (opened) {
+        this.delivery.replay();
+      } else if (this.outbox === outbox) {
+        this.outbox = null;
+        this.delivery.setOutbox(null);
+      }
+    });
+  }
+
   private setupEventListeners(): void {
     // Use passive listeners for better performance
     const options = { passive: true };
@@ -122,6 +292,7 @@ export class ThorbisAnalytics {
       options
     );
     window.addEventListener('pagehide', this.handleSessionEnd, options);
+    window.addEventListener('online', this.delivery.replay, options);
 
     // Use requestIdleCallback for non-critical tasks
     if ('requestIdleCallback' in window) {
@@ -146,24 +317,34 @@ export class ThorbisAnalytics {
 
   public async init(): Promise<void> {
     try {
-      if (!this.config.debug) return;
+      // Sessions outside the sample never start any trackers
+      if (!this.sampler.inSample) {
+        this.sampledOut = true;
+        if (this.config.debug) console.log('🎲 Session not sampled, analytics disabled');
+        return;
+      }
+      this.sampledOut = false;
 
       // Prevent multiple initializations
-      if (this.trackers.size > 0) {
+      if (this.resolvedTrackers) {
         console.warn('Analytics already initialized');
         return;
       }
 
-      console.log('\n🚀 Initializing Thorbis Analytics\n');
+      if (this.config.debug) console.log('\n🚀 Initializing Thorbis Analytics\n');
+
+      this.writeIdentityCookie();
 
       // Initialize trackers using dynamic imports for better performance
       await this.initializeTrackers();
 
-      console.log(
-        '\n✅ Active Trackers:',
-        Array.from(this.trackers.keys()).join(', '),
-        '\n'
-      );
+      if (this.config.debug) {
+        console.log(
+          '\n✅ Active Trackers:',
+          Array.from(this.trackers.keys()).join(', '),
+          '\n'
+        );
+      }
     } catch (error) {
       console.error('❌ Analytics initialization failed:', error);
       throw error;
@@ -171,70 +352,426 @@ export class ThorbisAnalytics {
   }
 
   private async initializeTrackers(): Promise<void> {
-    const trackerModules = {
-      demographics: () =>
-        this.config.options?.demographics && import('./trackers/demographics'),
-      engagement: () =>
-        this.config.options?.engagement && import('./trackers/engagement'),
-      error: () => this.config.options?.error && import('./trackers/error'),
-      forms: () => this.config.options?.forms && import('./trackers/forms'),
-      media: () => this.config.options?.media && import('./trackers/media'),
-      navigation: () =>
-        this.config.options?.navigation && import('./trackers/navigation'),
-      pageViews: () =>
-        this.config.options?.pageViews && import('./trackers/pageViews'),
-      performance: () =>
-        this.config.options?.performance && import('./trackers/performance'),
-      project: () =>
-        this.config.options?.project && import('./trackers/project'),
-      search: () => this.config.options?.search && import('./trackers/search'),
-      session: () => true && import('./trackers/session'),
-      seo: () => this.config.options?.seo && import('./trackers/seo'),
+    this.resolvedTrackers = this.registry.resolve(this.config);
+    // Before trackers start, so they see the adopted session
+    await this.setupCrossDomain();
+    await this.startConsentedTrackers();
+  }
+
+  /**
+   * Continues the session and visitor handed over by a decorated link from
+   * another allow-listed site, then keeps tokens ready for outbound links.
+   */
+  private async setupCrossDomain(): Promise<void> {
+    if (!this.linker) return;
+
+    const token = await this.linker.consume();
+    if (token && this.consent.isGranted('analytics')) {
+      this.setSessionId(token.sessionId);
+      this.identity.adopt(token.anonymousId);
+      this.linkedSession = token.session || null;
+      this.writeIdentityCookie();
+
+      if (this.config.debug) {
+        console.log('🔗 Continuing cross-domain session:', token.sessionId);
+      }
+    }
+
+    this.linker.start(() => {
+      const session = this.trackers.get('session')?.getData();
+      return {
+        sessionId: this.config.sessionId,
+        anonymousId: this.getAnonymousId(),
+        session: session ? { id: session.id, startTime: session.startTime } : undefined,
+      };
+    });
+  }
+
+  /**
+   * Starts every resolved tracker whose consent category is granted and that
+   * is not running yet. Called on init and again whenever consent changes.
+   */
+  private async startConsentedTrackers(): Promise<void> {
+    const ready: Map<string, Promise<boolean>> = new Map();
+
+    // Trackers start in parallel, each waiting only on its own dependencies
+    (this.resolvedTrackers || []).forEach((definition) => {
+      const { name } = definition;
+
+      if (this.startingTrackers.has(name)) {
+        ready.set(name, this.startingTrackers.get(name) as Promise<boolean>);
+      } else if (this.trackers.has(name)) {
+        ready.set(name, Promise.resolve(true));
+      } else if (!this.consent.isGranted(this.getCategory(name))) {
+        ready.set(name, Promise.resolve(false));
+      } else {
+        const dependencies = (definition.dependencies || []).map(
+          (dependency) => ready.get(dependency) as Promise<boolean>
+        );
+        const starting = this.startTracker(definition, dependencies).finally(() =>
+          this.startingTrackers.delete(name)
+        );
+        this.startingTrackers.set(name, starting);
+        ready.set(name, starting);
+      }
+    });
+
+    await Promise.all(ready.values());
+    // Tokens carry the session tracker's session, known only once it runs
+    this.linker?.refresh();
+  }
+
+  private getCategory(tracker?: string): ConsentCategory {
+    return (tracker && this.registry.get(tracker)?.category) || 'analytics';
+  }
+
+  private handleConsentChange = (state: ConsentState): void => {
+    // Stop trackers whose category was withdrawn and purge what they stored
+    this.trackers.forEach((tracker, name) => {
+      if (this.consent.isGranted(this.getCategory(name))) return;
+
+      try {
+        tracker.cleanup();
+      } catch (error) {
+        console.warn(`Error stopping ${name} tracker:`, error);
+      }
+      this.trackers.delete(name);
+      this.purgeStorage(this.registry.get(name)?.storageKeys || []);
+    });
+
+    if (!state.analytics) {
+      this.purgeStorage([
+        ...IDENTITY_STORAGE_KEYS,
+        ...CROSS_DOMAIN_STORAGE_KEYS,
+        ...EXPERIMENT_STORAGE_KEYS,
+        ...FUNNEL_STORAGE_KEYS,
+        ...INSIGHT_STORAGE_KEYS,
+      ]);
+      this.writeIdentityCookie();
+      this.eventQueue.clear();
+      this.outbox?.clear().catch((error) => {
+        console.warn('Failed to clear outbox:', error);
+      });
+      this.outbox = null;
+      this.delivery.setOutbox(null);
+    } else {
+      this.setupOutbox();
+      this.identity.persist();
+      this.experiments.persist();
+      this.funnels.persist();
+      this.insights?.persist();
+      this.writeIdentityCookie();
+
+      // Sampling was decided on the fallback id until the visitor's own
+      // anonymous id could be stored
+      this.sampler.reseed(this.getAnonymousId());
+      if (this.sampledOut && this.sampler.inSample) {
+        this.init().catch(() => {
+          // Already reported by init
+        });
+      }
+    }
+
+    // Release events that waited for a decision; the rest are dropped
+    const pending = this.pendingEvents;
+    this.pendingEvents = [];
+    pending.forEach(({ type, data, tracker }) => {
+      if (this.consent.isGranted(this.getCategory(tracker))) {
+        this.record(type, data, tracker);
+      }
+    });
+
+    if (this.resolvedTrackers) {
+      this.startConsentedTrackers();
+    }
+
+    if (this.config.debug) {
+      console.log('🔐 Consent updated:', state);
+    }
+  };
+
+  /**
+   * Mirrors the identity into a cookie so server code handling this
+   * visitor's requests can attach it to server-side events. Removed again
+   * without analytics consent.
+   */
+  private writeIdentityCookie(): void {
+    if (!this.config.identityCookie || typeof document === 'undefined') return;
+
+    document.cookie = this.consent.isGranted('analytics')
+      ? `${IDENTITY_COOKIE}=${encodeIdentity(this.getIdentity())}; path=/; SameSite=Lax`
+      : `${IDENTITY_COOKIE}=; path=/; max-age=0`;
+  }
+
+  private purgeStorage(keys: string[]): void {
+    keys.forEach((key) => {
+      try {
+        localStorage.removeItem(key);
+        sessionStorage.removeItem(key);
+      } catch {
+        // Storage may be unavailable (e.g. privacy mode)
+      }
+    });
+  }
+
+  private async startTracker(
+    definition: TrackerDefinition,
+    dependencies: Promise<boolean>[]
+  ): Promise<boolean> {
+    const { name } = definition;
+
+    try {
+      const resolved = await Promise.all(dependencies);
+      if (!resolved.every(Boolean)) {
+        console.warn(`Skipping ${name} tracker: a dependency is not running`);
+        return false;
+      }
+
+      const category = this.getCategory(name);
+      const TrackerClass = definition.tracker || (await definition.load!());
+      // Consent may have been withdrawn while the tracker was loading
+      if (!this.consent.isGranted(category)) return false;
+
+      const tracker = new TrackerClass(this.createTrackerAnalytics(name));
+      tracker.configure({
+        ...definition.config,
+        ...this.config.trackerConfig?.[name],
+      });
+      this.trackers.set(name, tracker);
+      await tracker.init();
+      if (!this.consent.isGranted(category)) {
+        tracker.cleanup();
+        this.trackers.delete(name);
+        return false;
+      }
+      if (this.config.debug) {
+        console.log(`⚙️  Loaded ${name}`);
+      }
+      return true;
+    } catch (error) {
+      console.warn(`Failed to load ${name} tracker:`, error);
+      this.trackers.delete(name);
+      return false;
+    }
+  }
+
+  /**
+   * Adds a custom tracker. Must be called before init(); trackers listed in
+   * `dependencies` are initialized first.
+   */
+  public registerTracker(definition: TrackerDefinition): void {
+    if (this.resolvedTrackers) {
+      console.warn(`Tracker "${definition.name}" registered after init, ignoring`);
+      return;
+    }
+    this.registry.register(definition);
+  }
+
+  private notifyTrackers(
+    hook: string,
+    callback: (tracker: BaseTracker) => void
+  ): void {
+    this.trackers.forEach((tracker, name) => {
+      try {
+        callback(tracker);
+      } catch (error) {
+        console.warn(`Error in ${name} tracker ${hook}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Gives each tracker a thin wrapper over the shared instance that tags its
+   * events with the tracker name, for per-tracker sampling.
+   */
+  private createTrackerAnalytics(name: string): any {
+    const config = this.config;
+    return {
+      track: (event: string, data?: Record<string, any>) =>
+        this.analytics.track(event, data, { tracker: name }),
+      page: (data?: Record<string, any>) => this.analytics.page(data),
+      // Read live: the session tracker may move every tab onto a shared id
+      get sessionId(): string {
+        return config.sessionId;
+      },
+      setSessionId: (sessionId: string) => this.setSessionId(sessionId),
+      getIdentity: () => this.getIdentity(),
+      decorateUrl: (url: string) => this.decorateUrl(url),
+      linkedSession: this.linkedSession,
+      getUserTraits: () => this.getUserTraits(),
+      // Lets trackers enrich every event, e.g. with campaign context
+      use: (middleware: EventMiddleware | MiddlewareDefinition) => this.use(middleware),
+      // Same scrubbing the queue applies, for payloads sent with send()
+      redact: <T>(payload: T) => this.redact(payload),
+      // Payloads that bypass the event queue, e.g. replay chunks
+      send: (kind: EventKind, payload: unknown, unloading?: boolean) =>
+        this.delivery.deliver(kind, payload, unloading),
     };
+  }
 
-    const initPromises = Object.entries(trackerModules).map(
-      async ([name, loader]) => {
-        try {
-          const shouldLoad = await loader();
-          if (shouldLoad) {
-            const module = await shouldLoad;
-            const TrackerClass = Object.values(module)[0];
-            const tracker = new TrackerClass(this.analytics);
-            this.trackers.set(name, tracker);
-            await tracker.init();
-            if (this.config.debug) {
-              console.log(`⚙️  Loaded ${name}`);
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to load ${name} tracker:`, error);
-        }
+  /**
+   * Single entry point into the queue for tracker and public API events, so
+   * both get the same sampling, super properties and middleware. Events go
+   * through the middleware chain one at a time to keep their order.
+   */
+  private record(
+    type: string,
+    data: Record<string, any>,
+    tracker?: string
+  ): void {
+    if (!this.consent.isGranted(this.getCategory(tracker))) {
+      if (
+        !this.consent.isDecided() &&
+        this.consent.pendingMode === 'queue' &&
+        this.pendingEvents.length < this.MAX_PENDING_EVENTS
+      ) {
+        this.pendingEvents.push({ type, data, tracker });
       }
-    );
+      return;
+    }
+
+    const decision = this.sampler.decide(type, tracker);
+    if (!decision.keep) return;
+
+    const experiments = this.experiments.getActiveVariants();
+    const event: AnalyticsEvent = {
+      id: randomId(),
+      type,
+      data: { ...this.superProperties, ...data },
+      userId: this.identity.getUserId(),
+      context: {
+        // Lets the backend stitch anonymous events to the user they alias to
+        anonymousId: this.getAnonymousId(),
+        ...(Object.keys(experiments).length ? { experiments } : {}),
+      },
+      timestamp: Date.now(),
+      sampling:
+        decision.rate < 1 || decision.dropped
+          ? { rate: decision.rate, dropped: decision.dropped }
+          : undefined,
+    };
+
+    if (this.middleware.size === 0) {
+      this.enqueue(event);
+      return;
+    }
+
+    this.pipelineTail = this.pipelineTail
+      .then(() =>
+        this.middleware.run(event, {
+          sessionId: this.config.sessionId,
+          anonymousId: this.getAnonymousId(),
+          userId: this.identity.getUserId(),
+        })
+      )
+      .then((result) => {
+        if (result) this.enqueue(result);
+      })
+      // A rejected tail would drop every later event, so only this one is lost
+      .catch((error) => console.warn(`Failed to process ${type} event:`, error));
+  }
+
+  private enqueue(event: AnalyticsEvent): void {
+    this.eventQueue.enqueue(event);
+    this.funnels.handleEvent(event);
+    this.insights?.observe(event);
+    this.notifyTrackers('onEvent', (tracker) => tracker.onEvent?.(event));
+  }
+
+  /**
+   * Insights are sent on their own so the backend can store them apart from
+   * raw events; a lightweight event marks them in the event stream.
+   */
+  private handleInsight = (insight: AIInsight): void => {
+    if (!this.consent.isGranted('analytics')) return;
 
-    await Promise.all(initPromises);
+    this.record('insight', {
+      insightId: insight.insight_id,
+      insightType: insight.insight_type,
+      confidence: insight.confidence_score,
+    });
+    this.delivery
+      .deliver(
+        'insights',
+        this.redact({
+          type: 'insight',
+          sessionId: this.config.sessionId,
+          timestamp: Date.now(),
+          insight,
+        })
+      )
+      .catch((error) => console.warn('Failed to send insight:', error));
+
+    if (this.config.debug) {
+      console.log('💡 Insight:', insight.insight_type, insight.description);
+    }
+  };
+
+  private getAnonymousId(): string {
+    return this.identity.anonymousId;
+  }
+
+  // Runs on every outgoing payload, so it also covers what trackers collect
+  private redact<T>(payload: T): T {
+    return this.redactor ? this.redactor.redact(payload) : payload;
   }
 
+  private sendBatch = async (
+    batch: EventBatch,
+    unloading: boolean = false
+  ): Promise<void> => {
+    await this.delivery.deliver(
+      'events',
+      this.redact({ type: 'batch', ...batch }),
+      unloading
+    );
+
+    this.notifyTrackers('onFlush', (tracker) => tracker.onFlush?.(batch));
+
+    if (this.config.debug) {
+      console.log(`📤 Sent batch ${batch.sequence}:`, batch.events.length, 'events');
+    }
+  };
+
   private handleSessionEnd = async (event: Event): Promise<void> => {
-    const payload = await this.collectSessionData();
+    if (!this.sampler.inSample) return;
 
-    if (event.type === 'beforeunload') {
-      // Use sendBeacon for better reliability during page unload
-      const blob = new Blob([JSON.stringify(payload)], {
-        type: 'application/json',
+    const unloading = event.type === 'beforeunload' || event.type === 'pagehide';
+
+    if (unloading) {
+      // Hand off buffered batches synchronously before the page goes away
+      this.eventQueue.drain().forEach((batch) => {
+        this.sendBatch(batch, true).catch((error) => {
+          console.warn(`Failed to send batch ${batch.sequence}:`, error);
+        });
       });
-      navigator.sendBeacon('/api/events', blob);
-      return;
+    } else {
+      // Let events still in the middleware chain reach the queue first
+      await this.pipelineTail;
+      await this.eventQueue.flush();
     }
 
-    // For other cases, use fetch with keepalive
+    // Nothing was collected without consent for any tracker
+    if (this.trackers.size === 0) return;
+
+    // Tabs share one session; only the leader reports it
+    const session = this.trackers.get('session') as SessionTracker | undefined;
+    if (session && !session.isLeader()) return;
+
+    await Promise.all(
+      Array.from(this.trackers.entries()).map(async ([name, tracker]) => {
+        try {
+          await tracker.onSessionEnd?.();
+        } catch (error) {
+          console.warn(`Error in ${name} tracker onSessionEnd:`, error);
+        }
+      })
+    );
+
+    const payload = await this.collectSessionData();
+
     try {
-      await fetch('/api/events', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        keepalive: true,
-      });
+      await this.delivery.deliver('sessions', this.redact(payload), unloading);
 
       if (this.config.debug) {
         console.log('📊 Session ended:', {
@@ -248,6 +785,18 @@ export class ThorbisAnalytics {
     }
   };
 
+  /**
+   * Tags batches, session_end and the pre-consent anonymous id with a new
+   * session id, e.g. one adopted from another site or shared by other tabs.
+   */
+  private setSessionId(sessionId: string): void {
+    if (sessionId === this.config.sessionId) return;
+    this.config.sessionId = sessionId;
+    this.eventQueue.setSessionId(sessionId);
+    this.identity.setFallbackId(sessionId);
+    this.linker?.refresh();
+  }
+
   private handleVisibilityChange = async (): Promise<void> => {
     if (document.visibilityState === 'hidden') {
       await this.handleSessionEnd(new Event('visibilitychange'));
@@ -261,6 +810,8 @@ export class ThorbisAnalytics {
       sessionId: this.config.sessionId,
       timestamp: Date.now(),
       type: 'session_end',
+      // session_end is sent on every hide; retries of one send share this id
+      sendId: randomId(),
       metadata: this.getMetadata(),
       session: {
         id: this.config.sessionId,
@@ -324,21 +875,242 @@ export class ThorbisAnalytics {
       'user_interaction',
       'error',
       'conversion',
+      'purchase',
       'performance',
     ];
     return importantEvents.includes(eventType as ImportantEventType);
   }
 
-  public cleanup(): void {
-    // Clear any pending timeouts
-    if (this.flushTimeout) {
-      clearTimeout(this.flushTimeout);
+  public async track(event: string, properties: EventProperties = {}): Promise<void> {
+    await this.analytics.track(event, properties, { source: 'api' });
+  }
+
+  /**
+   * Tracks a typed commerce event. With the ecommerce tracker running, the
+   * currency and revenue fields are filled in before the event is queued.
+   */
+  public async trackEcommerce<K extends EcommerceEventType>(
+    event: K,
+    payload: EcommerceEventMap[K]
+  ): Promise<void> {
+    await this.track(event, payload as EventProperties);
+  }
+
+  public async page(properties: EventProperties = {}): Promise<void> {
+    await this.analytics.page(properties);
+  }
+
+  /**
+   * Starts per-page metrics (performance, engagement) over after a
+   * client-side navigation, which keeps the same document.
+   */
+  public resetPageMetrics(): void {
+    this.notifyTrackers('onRouteChange', (tracker) => tracker.onRouteChange?.());
+  }
+
+  /**
+   * Links the visitor to a known user. The first identify for an anonymous
+   * visitor also records an alias from the anonymous id to the user, so the
+   * backend can merge the visitor's earlier history, including from other
+   * devices that alias to the same user. Traits are merged and persisted.
+   */
+  public async identify(userId: string, traits: UserTraits = {}): Promise<void> {
+    const result = this.identity.identify(userId, traits);
+    if (result.previousId) {
+      this.alias(userId, result.previousId);
+    }
+    this.writeIdentityCookie();
+    this.linker?.refresh();
+    await this.analytics.identify(userId, result.traits);
+  }
+
+  public group(groupId: string, traits: UserTraits = {}): void {
+    this.record('group', { groupId, traits });
+  }
+
+  public alias(userId: string, previousId?: string): void {
+    this.record('alias', {
+      userId,
+      previousId: previousId || this.identity.getUserId() || this.getAnonymousId(),
+    });
+  }
+
+  /**
+   * Logs the user out: forgets the user id and traits and starts a new
+   * anonymous id, so later events are not attributed to the previous user.
+   */
+  public async reset(): Promise<void> {
+    this.identity.reset();
+    this.superProperties = {};
+    await this.analytics.reset();
+    this.writeIdentityCookie();
+    this.linker?.refresh();
+  }
+
+  /**
+   * Ids to forward to server-side tracking, e.g. as request headers.
+   */
+  public getIdentity(): Identity {
+    return {
+      sessionId: this.config.sessionId,
+      anonymousId: this.getAnonymousId(),
+      userId: this.identity.getUserId(),
+    };
+  }
+
+  public getUserTraits(): UserTraits {
+    return this.identity.getTraits();
+  }
+
+  /**
+   * Adds a cross-domain token to urls pointing at another allow-listed
+   * site, for navigation that does not go through a link, e.g. redirects.
+   */
+  public decorateUrl(url: string): string {
+    if (!this.linker || !this.consent.isGranted('analytics')) return url;
+    return this.linker.decorate(url);
+  }
+
+  /**
+   * Appends a middleware to the chain every event passes through before it
+   * is queued. Returns a function that removes it again.
+   */
+  public use(middleware: EventMiddleware | MiddlewareDefinition): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  /**
+   * Merges properties into every subsequent event. Per-event properties win
+   * over super properties with the same key.
+   */
+  public setSuperProperties(properties: EventProperties): void {
+    this.superProperties = { ...this.superProperties, ...properties };
+  }
+
+  /**
+   * Adds a funnel at runtime, alongside those from `config.funnels`.
+   */
+  public defineFunnel(definition: FunnelDefinition): void {
+    this.funnels.define(definition);
+  }
+
+  public getFunnelState(id: string): FunnelState | undefined {
+    return this.funnels.getState(id);
+  }
+
+  public onFunnelChange(listener: FunnelListener): () => void {
+    return this.funnels.onChange(listener);
+  }
+
+  public resetFunnel(id?: string): void {
+    this.funnels.reset(id);
+  }
+
+  public defineExperiment(definition: ExperimentDefinition): void {
+    this.experiments.define(definition);
+  }
+
+  /**
+   * The visitor's variant, or null when the experiment is unknown, disabled
+   * or the visitor is not enrolled. Does not log an exposure.
+   */
+  public getVariant(experiment: string): string | null {
+    return this.experiments.getVariant(experiment);
+  }
+
+  /**
+   * The visitor's variant without assigning it or logging an exposure, for
+   * reading during render.
+   */
+  public peekVariant(experiment: string): string | null {
+    return this.experiments.peekVariant(experiment);
+  }
+
+  /**
+   * Logs that the visitor actually saw their variant. Call it once the
+   * variant is rendered; events recorded afterwards carry the variant.
+   */
+  public exposeExperiment(experiment: string): string | null {
+    const assignment = this.experiments.expose(experiment);
+    if (assignment) {
+      this.record('experimentExposure', {
+        experiment,
+        variant: assignment.variant,
+        assignedAt: assignment.assignedAt,
+      });
     }
+    return this.experiments.getVariant(experiment);
+  }
+
+  public forceVariant(experiment: string, variant: string): void {
+    this.experiments.force(experiment, variant);
+  }
+
+  /**
+   * Variants the visitor has been exposed to, keyed by experiment.
+   */
+  public getActiveVariants(): Map<string, string> {
+    return new Map(Object.entries(this.experiments.getActiveVariants()));
+  }
+
+  /**
+   * Listens for insights as they are raised. Requires `config.insights`;
+   * without it the listener is never called.
+   */
+  public onInsight(listener: InsightListener): () => void {
+    return this.insights ? this.insights.onInsight(listener) : () => {};
+  }
+
+  /**
+   * Churn risk in [0, 1] from the visitor's history, or null when insights
+   * are off or there are too few visits to judge.
+   */
+  public getChurnRisk(): number | null {
+    return this.insights?.getChurnRisk() ?? null;
+  }
+
+  /**
+   * Heatmap data collected by the engagement tracker on this page, or null
+   * when that tracker is not running.
+   */
+  public getHeatmap(): HeatmapSnapshot | null {
+    const tracker = this.trackers.get('engagement') as EngagementTracker | undefined;
+    return tracker ? tracker.getHeatmap() : null;
+  }
 
+  public setConsent(consent: Partial<ConsentState>): void {
+    this.consent.update(consent);
+  }
+
+  public getConsent(): ConsentState {
+    return this.consent.getState();
+  }
+
+  public onConsentChange(listener: ConsentListener): () => void {
+    return this.consent.onChange(listener);
+  }
+
+  public getDeliveryStats(): DeliveryStats {
+    return this.delivery.getStats();
+  }
+
+  public getDeadLetters(): DeadLetter[] {
+    return this.delivery.getDeadLetters();
+  }
+
+  public onDeliveryStatus(listener: DeliveryStatusListener): () => void {
+    return this.delivery.onStatus(listener);
+  }
+
+  public cleanup(): void {
     // Remove event listeners
     window.removeEventListener('beforeunload', this.handleSessionEnd);
     window.removeEventListener('visibilitychange', this.handleVisibilityChange);
     window.removeEventListener('pagehide', this.handleSessionEnd);
+    window.removeEventListener('online', this.delivery.replay);
+    this.linker?.stop();
+    this.funnels.destroy();
+    this.insights?.destroy();
 
     // Cleanup all trackers
     this.trackers.forEach((tracker) => {
@@ -349,9 +1121,12 @@ export class ThorbisAnalytics {
       }
     });
 
+    // Send whatever is still buffered before tearing down
+    this.eventQueue.flush();
+
     // Clear all data
     this.trackers.clear();
-    this.eventQueue = [];
+    this.eventQueue.clear();
     this.analyticsEvents = [];
   }
 }
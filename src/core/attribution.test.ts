@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { classifyMedium, computeCredit, parseTouch } from './attribution';
+import type { AttributionModel, Touch } from './attribution';
+
+const DAY = 86400000;
+
+function touch(timestamp: number, source: string): Touch {
+  return { timestamp, channel: 'referral', source, medium: 'referral', landingPage: '/' };
+}
+
+describe('parseTouch', () => {
+  it('reads campaign parameters', () => {
+    const parsed = parseTouch(
+      'https://shop.test/sale?utm_source=Newsletter&utm_medium=email&utm_campaign=spring&utm_term=shoes&utm_content=hero',
+      '',
+      1000
+    );
+
+    expect(parsed).toEqual({
+      timestamp: 1000,
+      channel: 'email',
+      source: 'newsletter',
+      medium: 'email',
+      campaign: 'spring',
+      term: 'shoes',
+      content: 'hero',
+      clickId: undefined,
+      referrer: undefined,
+      landingPage: '/sale',
+    });
+  });
+
+  it('reads click ids, letting campaign parameters win', () => {
+    expect(parseTouch('https://shop.test/?gclid=abc')).toMatchObject({
+      channel: 'paid_search',
+      source: 'google',
+      medium: 'cpc',
+      clickId: { type: 'gclid', value: 'abc' },
+    });
+    expect(parseTouch('https://shop.test/?fbclid=xyz')).toMatchObject({ channel: 'paid_social', source: 'facebook' });
+    expect(parseTouch('https://shop.test/?utm_source=partner&utm_medium=affiliate&msclkid=m1')).toMatchObject({
+      channel: 'affiliate',
+      source: 'partner',
+      clickId: { type: 'msclkid', value: 'm1' },
+    });
+  });
+
+  it('classifies external referrers', () => {
+    expect(parseTouch('https://shop.test/', 'https://www.google.co.uk/')).toMatchObject({
+      channel: 'organic_search',
+      source: 'google',
+    });
+    expect(parseTouch('https://shop.test/', 'https://t.co/abc')).toMatchObject({
+      channel: 'organic_social',
+      source: 'twitter',
+    });
+    expect(parseTouch('https://shop.test/', 'https://blog.example/post')).toMatchObject({
+      channel: 'referral',
+      source: 'blog.example',
+    });
+  });
+
+  it('treats no referrer as direct and internal navigation as no touch', () => {
+    expect(parseTouch('https://shop.test/')).toMatchObject({ channel: 'direct', source: '(direct)' });
+    expect(parseTouch('https://shop.test/cart', 'https://www.shop.test/')).toBeNull();
+    expect(parseTouch('not a url')).toBeNull();
+  });
+});
+
+describe('classifyMedium', () => {
+  it('tells paid search from paid social by source', () => {
+    expect(classifyMedium('cpc', 'google')).toBe('paid_search');
+    expect(classifyMedium('cpc', 'facebook')).toBe('paid_social');
+    expect(classifyMedium('display')).toBe('display');
+    expect(classifyMedium('unknown')).toBe('referral');
+  });
+});
+
+describe('computeCredit', () => {
+  const conversionTime = 10 * DAY;
+  const touches = [touch(9 * DAY, 'c'), touch(2 * DAY, 'a'), touch(3 * DAY, 'b'), touch(11 * DAY, 'late')];
+  const credits = (model: AttributionModel, options = {}) =>
+    computeCredit(touches, model, { conversionTime, ...options }).map((entry) => [entry.touch.source, entry.credit]);
+
+  it('gives first and last touch all the credit', () => {
+    expect(credits('first_touch')).toEqual([['a', 1]]);
+    expect(credits('last_touch')).toEqual([['c', 1]]);
+  });
+
+  it('splits linear credit evenly, ignoring touches after the conversion', () => {
+    expect(credits('linear')).toEqual([
+      ['a', 1 / 3],
+      ['b', 1 / 3],
+      ['c', 1 / 3],
+    ]);
+  });
+
+  it('halves time decay credit per half-life before the conversion', () => {
+    const [a, b, c] = credits('time_decay', { halfLife: DAY }).map(([, credit]) => credit as number);
+
+    expect(b / a).toBeCloseTo(2, 10);
+    expect(c / b).toBeCloseTo(64, 10);
+    expect(a + b + c).toBeCloseTo(1, 10);
+  });
+
+  it('has nothing to credit without earlier touches', () => {
+    expect(computeCredit([touch(11 * DAY, 'late')], 'linear', { conversionTime })).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+export type Channel =
+  | 'direct'
+  | 'organic_search'
+  | 'paid_search'
+  | 'organic_social'
+  | 'paid_social'
+  | 'email'
+  | 'display'
+  | 'affiliate'
+  | 'referral';
+
+export type ClickIdType = 'gclid' | 'fbclid' | 'msclkid';
+
+/**
+ * One way a visitor arrived: a landing with campaign parameters, a click id
+ * or an external referrer.
+ */
+export interface Touch {
+  timestamp: number;
+  channel: Channel;
+  source: string;
+  medium: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+  clickId?: { type: ClickIdType; value: string };
+  referrer?: string;
+  landingPage: string;
+}
+
+export type AttributionModel = 'first_touch' | 'last_touch' | 'linear' | 'time_decay';
+
+export interface TouchCredit {
+  touch: Touch;
+  credit: number; // share of the conversion, all credits sum to 1
+}
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = ['first_touch', 'last_touch', 'linear', 'time_decay'];
+
+const CLICK_IDS: Array<{ type: ClickIdType; source: string; channel: Channel }> = [
+  { type: 'gclid', source: 'google', channel: 'paid_search' },
+  { type: 'msclkid', source: 'bing', channel: 'paid_search' },
+  { type: 'fbclid', source: 'facebook', channel: 'paid_social' },
+];
+
+const SEARCH_ENGINES: Record<string, string> = {
+  google: 'google',
+  bing: 'bing',
+  yahoo: 'yahoo',
+  duckduckgo: 'duckduckgo',
+  baidu: 'baidu',
+  yandex: 'yandex',
+  ecosia: 'ecosia',
+};
+
+const SOCIAL_NETWORKS: Record<string, string> = {
+  'facebook.com': 'facebook',
+  'fb.com': 'facebook',
+  'instagram.com': 'instagram',
+  't.co': 'twitter',
+  'twitter.com': 'twitter',
+  'x.com': 'twitter',
+  'linkedin.com': 'linkedin',
+  'lnkd.in': 'linkedin',
+  'reddit.com': 'reddit',
+  'pinterest.com': 'pinterest',
+  'youtube.com': 'youtube',
+  'tiktok.com': 'tiktok',
+};
+
+const EMAIL_HOSTS = ['mail.google.com', 'outlook.live.com', 'mail.yahoo.com'];
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function matchHost(hostname: string, table: Record<string, string>): string | undefined {
+  const key = Object.keys(table).find((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+  return key && table[key];
+}
+
+function searchEngine(hostname: string): string | undefined {
+  const label = hostname.split('.').find((part) => SEARCH_ENGINES[part]);
+  return label && SEARCH_ENGINES[label];
+}
+
+/**
+ * Maps a utm_medium (and source) to a channel, following the common
+ * default channel groupings.
+ */
+export function classifyMedium(medium: string, source: string = ''): Channel {
+  const value = medium.toLowerCase();
+  const social = !!matchHost(source.toLowerCase(), SOCIAL_NETWORKS) || /^(facebook|instagram|twitter|linkedin|tiktok|reddit|pinterest|youtube)$/i.test(source);
+
+  if (/^(cpc|ppc|paid|paidsearch|paid_search|sem)$/.test(value)) return social ? 'paid_social' : 'paid_search';
+  if (/^(paid_?social|social_?paid|paidsocial)$/.test(value)) return 'paid_social';
+  if (/^(social|social-network|social-media|sm)$/.test(value)) return 'organic_social';
+  if (/^(e-?mail|newsletter)$/.test(value)) return 'email';
+  if (/^(display|cpm|banner|programmatic)$/.test(value)) return 'display';
+  if (value === 'affiliate') return 'affiliate';
+  if (value === 'organic') return 'organic_search';
+  return social ? 'organic_social' : 'referral';
+}
+
+/**
+ * Works out where a landing came from. Campaign parameters win over click
+ * ids, which win over the referrer. Returns null for internal navigation,
+ * which is not a new touch.
+ */
+export function parseTouch(
+  url: string,
+  referrer: string = '',
+  timestamp: number = Date.now()
+): Touch | null {
+  let landing: URL;
+  try {
+    landing = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const params = landing.searchParams;
+  const referrerHost = referrer ? hostnameOf(referrer) : null;
+  const landingHost = landing.hostname.toLowerCase().replace(/^www\./, '');
+  const external = !!referrerHost && referrerHost !== landingHost;
+  const landingPage = landing.pathname;
+
+  const clickId = CLICK_IDS.find(({ type }) => params.get(type));
+  const utmSource = params.get('utm_source');
+  const utmMedium = params.get('utm_medium');
+
+  if (utmSource || utmMedium || params.get('utm_campaign')) {
+    const source = (utmSource || referrerHost || '(not set)').toLowerCase();
+    const medium = (utmMedium || (clickId ? 'cpc' : '(not set)')).toLowerCase();
+    return {
+      timestamp,
+      channel: clickId && !utmMedium ? clickId.channel : classifyMedium(medium, source),
+      source,
+      medium,
+      campaign: params.get('utm_campaign') || undefined,
+      term: params.get('utm_term') || undefined,
+      content: params.get('utm_content') || undefined,
+      clickId: clickId ? { type: clickId.type, value: params.get(clickId.type) as string } : undefined,
+      referrer: referrer || undefined,
+      landingPage,
+    };
+  }
+
+  if (clickId) {
+    return {
+      timestamp,
+      channel: clickId.channel,
+      source: clickId.source,
+      medium: 'cpc',
+      clickId: { type: clickId.type, value: params.get(clickId.type) as string },
+      referrer: referrer || undefined,
+      landingPage,
+    };
+  }
+
+  if (!external) {
+    // Same-site navigation continues the current touch; no referrer is direct
+    return referrer ? null : { timestamp, channel: 'direct', source: '(direct)', medium: '(none)', landingPage };
+  }
+
+  const host = referrerHost as string;
+  const engine = searchEngine(host);
+  if (engine) {
+    return { timestamp, channel: 'organic_search', source: engine, medium: 'organic', referrer, landingPage };
+  }
+  const network = matchHost(host, SOCIAL_NETWORKS);
+  if (network) {
+    return { timestamp, channel: 'organic_social', source: network, medium: 'social', referrer, landingPage };
+  }
+  if (EMAIL_HOSTS.includes(host)) {
+    return { timestamp, channel: 'email', source: host, medium: 'email', referrer, landingPage };
+  }
+  return { timestamp, channel: 'referral', source: host, medium: 'referral', referrer, landingPage };
+}
+
+/**
+ * Splits one conversion across the touches that preceded it. Touches after
+ * the conversion are ignored. Time decay halves a touch's weight for every
+ * `halfLife` ms between it and the conversion (7 days by default).
+ */
+export function computeCredit(
+  touches: Touch[],
+  model: AttributionModel,
+  options: { conversionTime?: number; halfLife?: number } = {}
+): TouchCredit[] {
+  const conversionTime = options.conversionTime ?? Date.now();
+  const eligible = touches
+    .filter((touch) => touch.timestamp <= conversionTime)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (eligible.length === 0) return [];
+
+  switch (model) {
+    case 'first_touch':
+      return [{ touch: eligible[0], credit: 1 }];
+    case 'last_touch':
+      return [{ touch: eligible[eligible.length - 1], credit: 1 }];
+    case 'linear':
+      return eligible.map((touch) => ({ touch, credit: 1 / eligible.length }));
+    case 'time_decay': {
+      const halfLife = options.halfLife ?? 7 * 24 * 60 * 60 * 1000;
+      const weights = eligible.map((touch) => Math.pow(2, -(conversionTime - touch.timestamp) / halfLife));
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      return eligible.map((touch, index) => ({ touch, credit: weights[index] / total }));
+    }
+  }
+}
@@ -0,0 +1,67 @@
+export type CompressionFormat = 'gzip' | 'deflate';
+
+// Bodies smaller than this rarely shrink enough to be worth the CPU
+const MIN_COMPRESSION_SIZE = 1024;
+
+export function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined';
+}
+
+export function shouldCompress(body: string): boolean {
+  return isCompressionSupported() && body.length >= MIN_COMPRESSION_SIZE;
+}
+
+export async function compress(data: string, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export function toBytes(body: string | Uint8Array): Uint8Array {
+  return typeof body === 'string' ? new TextEncoder().encode(body) : body;
+}
+
+export function splitBytes(bytes: Uint8Array, chunkSize: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    chunks.push(bytes.subarray(offset, offset + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Inflates a compressed body, giving up once the output passes `maxBytes`
+ * so a small, highly compressed body cannot exhaust memory.
+ */
+export async function decompress(
+  data: Uint8Array,
+  format: CompressionFormat,
+  maxBytes: number = Infinity
+): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new RangeError(`Decompressed body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
@@ -0,0 +1,121 @@
+export type ConsentCategory = 'necessary' | 'analytics' | 'performance' | 'marketing';
+
+export type ConsentState = Record<ConsentCategory, boolean>;
+
+export interface ConsentConfig {
+  // When false (the default without a consent config) everything is granted
+  required?: boolean;
+  defaults?: Partial<ConsentState>;
+  // What happens to events recorded before their category is granted
+  pending?: 'queue' | 'drop';
+  honorGlobalPrivacyControl?: boolean;
+  honorDoNotTrack?: boolean;
+}
+
+export type ConsentListener = (state: ConsentState, previous: ConsentState) => void;
+
+const STORAGE_KEY = 'thorbis_consent';
+
+declare global {
+  interface Navigator {
+    globalPrivacyControl?: boolean;
+  }
+}
+
+/**
+ * Tracks which consent categories the visitor has granted. Global Privacy
+ * Control permanently denies marketing; Do Not Track denies every optional
+ * category until the visitor explicitly opts in.
+ */
+export class ConsentManager {
+  private state: ConsentState;
+  private decided: boolean;
+  private readonly config: ConsentConfig;
+  private readonly listeners: Set<ConsentListener> = new Set();
+
+  constructor(config: ConsentConfig = {}) {
+    this.config = config;
+
+    const stored = this.config.required ? this.getStoredConsent() : null;
+    this.decided = !this.config.required || stored !== null;
+    this.state = this.applySignals(
+      stored || {
+        necessary: true,
+        analytics: !this.config.required,
+        performance: !this.config.required,
+        marketing: !this.config.required,
+        ...this.config.defaults,
+      },
+      stored === null
+    );
+  }
+
+  get pendingMode(): 'queue' | 'drop' {
+    return this.config.pending || 'queue';
+  }
+
+  isDecided(): boolean {
+    return this.decided;
+  }
+
+  isGranted(category: ConsentCategory): boolean {
+    return category === 'necessary' || this.state[category];
+  }
+
+  getState(): ConsentState {
+    return { ...this.state };
+  }
+
+  update(consent: Partial<ConsentState>): void {
+    const previous = this.getState();
+    this.state = this.applySignals({ ...this.state, ...consent, necessary: true }, false);
+    this.decided = true;
+    this.storeConsent();
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.getState(), previous);
+      } catch (error) {
+        console.warn('Consent listener failed:', error);
+      }
+    });
+  }
+
+  onChange(listener: ConsentListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private applySignals(state: ConsentState, isDefault: boolean): ConsentState {
+    if (typeof navigator === 'undefined') return state;
+
+    const next = { ...state };
+    if (this.config.honorGlobalPrivacyControl !== false && navigator.globalPrivacyControl) {
+      next.marketing = false;
+    }
+    if (isDefault && this.config.honorDoNotTrack !== false && navigator.doNotTrack === '1') {
+      next.analytics = false;
+      next.performance = false;
+      next.marketing = false;
+    }
+    return next;
+  }
+
+  // The consent record itself is strictly necessary, so it is always stored
+  private storeConsent(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to store consent:', error);
+    }
+  }
+
+  private getStoredConsent(): ConsentState | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CrossDomainLinker, signLinkToken, verifyLinkToken } from './crossdomain';
+import type { LinkToken } from './crossdomain';
+
+const SECRET = 'shared-secret';
+const NOW = 1_700_000_000_000;
+
+function token(overrides: Partial<LinkToken> = {}): LinkToken {
+  return {
+    sessionId: 's1',
+    anonymousId: 'a1',
+    audience: 'shop.test',
+    issuedAt: NOW,
+    expiresAt: NOW + 60000,
+    nonce: 'n1',
+    ...overrides,
+  };
+}
+
+function payloadOf(value: string): Record<string, any> {
+  const [payload] = value.split('.');
+  return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+}
+
+const verify = (value: string, now = NOW) => verifyLinkToken(value, SECRET, { audience: 'shop.test', now });
+
+describe('verifyLinkToken', () => {
+  it('accepts a token signed with the shared secret', async () => {
+    const result = await verify(await signLinkToken(token(), SECRET));
+
+    expect(result).toEqual({ ok: true, token: token() });
+  });
+
+  it('rejects tampered tokens and other secrets', async () => {
+    const signed = await signLinkToken(token(), SECRET);
+    const [, signature] = signed.split('.');
+    const forged = btoa(JSON.stringify(token({ anonymousId: 'someone-else' })))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+    expect(await verify(`${forged}.${signature}`)).toEqual({ ok: false, reason: 'signature' });
+    expect(await verify(await signLinkToken(token(), 'other-secret'))).toEqual({ ok: false, reason: 'signature' });
+    expect(await verify(`${signed}.extra`)).toEqual({ ok: false, reason: 'malformed' });
+  });
+
+  it('rejects expired tokens and lifetimes beyond maxAge', async () => {
+    expect(await verify(await signLinkToken(token(), SECRET), NOW + 60001)).toEqual({ ok: false, reason: 'expired' });
+    expect(await verify(await signLinkToken(token({ expiresAt: NOW + 86400000 }), SECRET))).toEqual({
+      ok: false,
+      reason: 'expired',
+    });
+  });
+
+  it('rejects tokens issued for another site', async () => {
+    const result = await verify(await signLinkToken(token({ audience: 'blog.test' }), SECRET));
+
+    expect(result).toEqual({ ok: false, reason: 'audience' });
+  });
+
+  it('rejects tokens without a nonce', async () => {
+    const withoutNonce: Partial<LinkToken> = token();
+    delete withoutNonce.nonce;
+
+    expect(await verify(await signLinkToken(withoutNonce as LinkToken, SECRET))).toEqual({
+      ok: false,
+      reason: 'malformed',
+    });
+  });
+});
+
+describe('CrossDomainLinker', () => {
+  const globals = globalThis as any;
+  const store = new Map<string, string>();
+  const warn = console.warn;
+  let linker: CrossDomainLinker;
+
+  function visit(href: string): void {
+    const url = new URL(href);
+    globals.window = {
+      location: { href, hostname: url.hostname },
+      history: { state: null, replaceState: () => {} },
+    };
+  }
+
+  beforeEach(() => {
+    store.clear();
+    globals.localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    };
+    console.warn = () => {};
+    linker = new CrossDomainLinker({ domains: ['shop.test', 'blog.test'], secret: SECRET }, { canPersist: () => true });
+  });
+
+  afterEach(() => {
+    linker.stop();
+    console.warn = warn;
+    delete globals.window;
+    delete globals.localStorage;
+  });
+
+  it('carries only anonymous ids and uses a new nonce per link', async () => {
+    visit('https://blog.test/post');
+    linker.start(() => ({ sessionId: 's1', anonymousId: 'a1', userId: 'u1' }) as any);
+    await linker.refresh();
+
+    const first = new URL(linker.decorate('https://shop.test/cart')).searchParams.get('_thorbis') as string;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const second = new URL(linker.decorate('https://shop.test/cart')).searchParams.get('_thorbis') as string;
+
+    expect(payloadOf(first)).toMatchObject({ sessionId: 's1', anonymousId: 'a1', audience: 'shop.test' });
+    expect(payloadOf(first)).not.toHaveProperty('userId');
+    expect(payloadOf(second).nonce).not.toBe(payloadOf(first).nonce);
+    expect(linker.decorate('https://blog.test/other')).toBe('https://blog.test/other');
+  });
+
+  it('accepts a link once and rejects it when replayed', async () => {
+    const value = await signLinkToken(token({ issuedAt: Date.now(), expiresAt: Date.now() + 60000 }), SECRET);
+
+    visit(`https://shop.test/cart?_thorbis=${value}`);
+    expect(await linker.consume()).toMatchObject({ sessionId: 's1', anonymousId: 'a1' });
+
+    visit(`https://shop.test/cart?_thorbis=${value}`);
+    expect(await linker.consume()).toBeNull();
+  });
+
+  it('adopts nothing when the nonce cannot be stored', async () => {
+    const value = await signLinkToken(token({ issuedAt: Date.now(), expiresAt: Date.now() + 60000 }), SECRET);
+    const withoutConsent = new CrossDomainLinker(
+      { domains: ['shop.test'], secret: SECRET },
+      { canPersist: () => false }
+    );
+
+    visit(`https://shop.test/cart?_thorbis=${value}`);
+    expect(await withoutConsent.consume()).toBeNull();
+  });
+});
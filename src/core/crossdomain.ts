@@ -0,0 +1,311 @@
+import { randomId } from './identity';
+
+export interface CrossDomainConfig {
+  // Hostnames whose links get decorated; subdomains match too
+  domains: string[];
+  // Shared by every linked site to sign and verify link tokens
+  secret: string;
+  // Query parameter carrying the token
+  param?: string;
+  // How long a token is accepted after it is signed, in ms
+  maxAge?: number;
+}
+
+/**
+ * What one site hands to another through a decorated link. Only anonymous
+ * ids travel; a known user has to sign in on each site.
+ */
+export interface LinkToken {
+  sessionId: string;
+  anonymousId: string;
+  // The session tracker's visit, so the receiving site continues it
+  session?: { id: string; startTime: number };
+  audience: string; // hostname the token was issued for
+  issuedAt: number;
+  expiresAt: number;
+  // Accepted once, so a replayed link does not hand the visitor over again
+  nonce: string;
+}
+
+export type LinkIdentity = Omit<LinkToken, 'audience' | 'issuedAt' | 'expiresAt' | 'nonce'>;
+
+export type LinkTokenResult =
+  | { ok: true; token: LinkToken }
+  | { ok: false; reason: 'malformed' | 'signature' | 'expired' | 'audience' };
+
+export interface CrossDomainLinkerOptions {
+  canPersist: () => boolean;
+}
+
+const DEFAULT_PARAM = '_thorbis';
+const DEFAULT_MAX_AGE = 120000; // 2 minutes
+const CLOCK_SKEW = 30000;
+const NONCE_STORAGE_KEY = 'thorbis_link_nonces';
+
+export const CROSS_DOMAIN_STORAGE_KEYS = [NONCE_STORAGE_KEY];
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Serializes and HMAC-SHA256 signs a token as `payload.signature`, both
+ * base64url encoded.
+ */
+export async function signLinkToken(token: LinkToken, secret: string): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(token)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Checks a token's signature, lifetime and audience. The signature is
+ * verified before the payload is parsed, so altered tokens are never read.
+ */
+export async function verifyLinkToken(
+  value: string,
+  secret: string,
+  options: { audience: string; maxAge?: number; now?: number }
+): Promise<LinkTokenResult> {
+  const [payload, signature, extra] = value.split('.');
+  if (!payload || !signature || extra !== undefined) return { ok: false, reason: 'malformed' };
+
+  let token: LinkToken;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return { ok: false, reason: 'signature' };
+    token = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  if (
+    typeof token?.sessionId !== 'string' ||
+    typeof token.anonymousId !== 'string' ||
+    typeof token.issuedAt !== 'number' ||
+    typeof token.expiresAt !== 'number' ||
+    typeof token.nonce !== 'string'
+  ) {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  const now = options.now ?? Date.now();
+  const maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+  if (
+    token.expiresAt < now ||
+    token.issuedAt > now + CLOCK_SKEW ||
+    token.expiresAt - token.issuedAt > maxAge
+  ) {
+    return { ok: false, reason: 'expired' };
+  }
+  if (token.audience !== options.audience) return { ok: false, reason: 'audience' };
+
+  return { ok: true, token };
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Carries a visitor's anonymous identity across the allow-listed sites of one
+ * property. Links are decorated synchronously at click time, so tokens are
+ * signed ahead of time per domain, re-signed before they expire and again
+ * once used, since the receiving site accepts each nonce only once.
+ *
+ * The secret ships in the client code of every linked site, so signatures
+ * stop forged and altered links from outside, not a determined visitor. Used
+ * nonces are remembered per browser, so a link copied to another browser
+ * within its lifetime is still accepted there.
+ */
+export class CrossDomainLinker {
+  private readonly config: Required<CrossDomainConfig>;
+  private readonly options: CrossDomainLinkerOptions;
+  private readonly tokens: Map<string, string> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private getToken: (() => LinkIdentity) | null = null;
+
+  constructor(config: CrossDomainConfig, options: CrossDomainLinkerOptions) {
+    this.options = options;
+    this.config = {
+      param: DEFAULT_PARAM,
+      maxAge: DEFAULT_MAX_AGE,
+      ...config,
+      domains: config.domains.map((domain) => domain.toLowerCase()),
+    };
+  }
+
+  /**
+   * Signs tokens for every allow-listed domain now and then halfway through
+   * each token's lifetime, reading the identity fresh every time.
+   */
+  start(getToken: () => LinkIdentity): void {
+    this.stop();
+    this.getToken = getToken;
+    this.refresh();
+    this.refreshTimer = setInterval(() => this.refresh(), this.config.maxAge / 2);
+  }
+
+  /**
+   * Re-signs every token now, e.g. after the identity or session changed.
+   * Does nothing before start().
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(this.config.domains.map((domain) => this.sign(domain)));
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.getToken = null;
+  }
+
+  /**
+   * Returns the url with a token added when it points at another
+   * allow-listed site, otherwise the url unchanged.
+   */
+  decorate(url: string): string {
+    if (typeof window === 'undefined') return url;
+
+    try {
+      const target = new URL(url, window.location.href);
+      if (target.hostname === window.location.hostname) return url;
+
+      const domain = this.config.domains.find((candidate) =>
+        matchesDomain(target.hostname.toLowerCase(), candidate)
+      );
+      const token = domain && this.tokens.get(domain);
+      if (!domain || !token) return url;
+
+      // Its nonce is spent once followed, so the next link gets a new one
+      this.sign(domain);
+      target.searchParams.set(this.config.param, token);
+      return target.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Reads and verifies a token from the current url, then strips it from
+   * the address bar so it is not bookmarked or shared.
+   */
+  async consume(): Promise<LinkToken | null> {
+    if (typeof window === 'undefined') return null;
+
+    const url = new URL(window.location.href);
+    const value = url.searchParams.get(this.config.param);
+    if (!value) return null;
+
+    url.searchParams.delete(this.config.param);
+    try {
+      window.history.replaceState(window.history.state, '', url.toString());
+    } catch {
+      // Some sandboxed frames disallow history changes
+    }
+
+    // Without storage a replay goes unnoticed, and nothing may be adopted anyway
+    if (!this.options.canPersist()) return null;
+
+    // The token names the allow-listed domain, which may be a parent of this host
+    const hostname = window.location.hostname.toLowerCase();
+    const audience = this.config.domains.find((domain) => matchesDomain(hostname, domain));
+    if (!audience) {
+      console.warn('Rejected cross-domain token: this site is not allow-listed');
+      return null;
+    }
+
+    const result = await verifyLinkToken(value, this.config.secret, {
+      audience,
+      maxAge: this.config.maxAge,
+    });
+    if (!result.ok) {
+      console.warn(`Rejected cross-domain token: ${result.reason}`);
+      return null;
+    }
+    if (!this.claimNonce(result.token)) {
+      console.warn('Rejected cross-domain token: replayed');
+      return null;
+    }
+    return result.token;
+  }
+
+  private async sign(domain: string): Promise<void> {
+    const getToken = this.getToken;
+    if (!getToken) return;
+
+    const now = Date.now();
+    const { sessionId, anonymousId, session } = getToken();
+    try {
+      const token = await signLinkToken(
+        {
+          sessionId,
+          anonymousId,
+          session,
+          audience: domain,
+          issuedAt: now,
+          expiresAt: now + this.config.maxAge,
+          nonce: randomId(),
+        },
+        this.config.secret
+      );
+      this.tokens.set(domain, token);
+    } catch (error) {
+      console.warn(`Failed to sign link token for ${domain}:`, error);
+    }
+  }
+
+  /**
+   * Records a token's nonce until the token expires. Fails when the nonce
+   * was seen before or cannot be recorded, since a replay would then go
+   * unnoticed.
+   */
+  private claimNonce(token: LinkToken): boolean {
+    try {
+      const now = Date.now();
+      const stored: Record<string, number> = JSON.parse(localStorage.getItem(NONCE_STORAGE_KEY) || '{}');
+      if (stored[token.nonce] !== undefined) return false;
+
+      const used = Object.fromEntries(
+        Object.entries(stored).filter(([, expiresAt]) => expiresAt >= now)
+      );
+      used[token.nonce] = token.expiresAt;
+      localStorage.setItem(NONCE_STORAGE_KEY, JSON.stringify(used));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
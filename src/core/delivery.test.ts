@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { computeBackoff } from './delivery';
+
+const policy = { maxAttempts: 5, baseDelay: 1000, maxDelay: 30000, jitter: 0 };
+
+describe('computeBackoff', () => {
+  it('doubles the delay per attempt up to the maximum', () => {
+    expect(computeBackoff(policy, 1)).toBe(1000);
+    expect(computeBackoff(policy, 3)).toBe(4000);
+    expect(computeBackoff(policy, 10)).toBe(30000);
+  });
+
+  it('prefers Retry-After', () => {
+    expect(computeBackoff(policy, 1, 5000)).toBe(5000);
+  });
+
+  it('clamps Retry-After to the maximum delay', () => {
+    expect(computeBackoff(policy, 1, 86400000)).toBe(30000);
+  });
+});
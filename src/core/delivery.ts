@@ -0,0 +1,279 @@
+import type { Outbox } from './outbox';
+import type { EventKind, TransportResponse, TransportRouter } from './transport';
+import type { RetryPolicy } from './types';
+
+export interface DeadLetter {
+  kind: EventKind;
+  payload: any;
+  status: number;
+  reason: 'rejected' | 'exhausted';
+  attempts: number;
+  failedAt: number;
+}
+
+export interface DeliveryStats {
+  sent: number;
+  retried: number;
+  stored: number;
+  replayed: number;
+  deadLettered: number;
+  lastStatus: number | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+}
+
+export interface DeliveryStatusEvent {
+  type: 'sent' | 'retry' | 'stored' | 'replayed' | 'dead_letter';
+  kind: EventKind;
+  attempt: number;
+  status: number;
+  stats: DeliveryStats;
+}
+
+export type DeliveryStatusListener = (event: DeliveryStatusEvent) => void;
+
+interface DeliveryOptions {
+  transport: TransportRouter;
+  outbox?: Outbox | null;
+  retry?: Partial<RetryPolicy>;
+  maxDeadLetters?: number;
+  debug?: boolean;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.5,
+};
+
+export function computeBackoff(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter?: number
+): number {
+  // The server's Retry-After wins over our own schedule, but sends are
+  // serial, so an excessive value must not stall delivery for the page
+  if (retryAfter !== undefined) return Math.min(retryAfter, policy.maxDelay);
+
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return delay - delay * policy.jitter * Math.random();
+}
+
+function isRetryable(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Wraps the transport with retry, offline persistence and dead-lettering,
+ * and keeps running counters that can be observed by dashboards.
+ */
+export class DeliveryManager {
+  private readonly options: DeliveryOptions;
+  private readonly policy: RetryPolicy;
+  private readonly listeners: Set<DeliveryStatusListener> = new Set();
+  private deadLetters: DeadLetter[] = [];
+  private isReplaying: boolean = false;
+  private stats: DeliveryStats = {
+    sent: 0,
+    retried: 0,
+    stored: 0,
+    replayed: 0,
+    deadLettered: 0,
+    lastStatus: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+  };
+
+  constructor(options: DeliveryOptions) {
+    this.options = options;
+    this.policy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...options.transport.retryPolicy,
+      ...options.retry,
+    };
+  }
+
+  setOutbox(outbox: Outbox | null): void {
+    this.options.outbox = outbox;
+  }
+
+  getStats(): DeliveryStats {
+    return { ...this.stats };
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  clearDeadLetters(): void {
+    this.deadLetters = [];
+  }
+
+  onStatus(listener: DeliveryStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Sends a payload, retrying transient failures with exponential backoff.
+   * Payloads that still cannot be delivered go to the outbox when one is
+   * available; permanent rejections go to the dead-letter bucket.
+   */
+  async deliver(kind: EventKind, payload: any, unloading: boolean = false): Promise<void> {
+    const { outbox } = this.options;
+
+    if (outbox && typeof navigator !== 'undefined' && !navigator.onLine) {
+      await this.store(kind, payload);
+      return;
+    }
+
+    // There is no time to wait for a retry while the page is going away
+    const maxAttempts = unloading ? 1 : this.policy.maxAttempts;
+    let response: TransportResponse = { ok: false, status: 0 };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      response = await this.attempt(kind, payload, unloading);
+
+      if (response.ok) {
+        this.stats.sent++;
+        this.stats.lastSuccessAt = Date.now();
+        this.emit('sent', kind, attempt, response.status);
+        return;
+      }
+
+      this.stats.lastFailureAt = Date.now();
+
+      if (!isRetryable(response.status)) {
+        this.deadLetter(kind, payload, response.status, 'rejected', attempt);
+        throw new Error(`${kind} payload rejected with status ${response.status}`);
+      }
+
+      if (attempt < maxAttempts) {
+        this.stats.retried++;
+        this.emit('retry', kind, attempt, response.status);
+        await this.wait(computeBackoff(this.policy, attempt, response.retryAfter));
+      }
+    }
+
+    if (outbox) {
+      await this.store(kind, payload);
+      return;
+    }
+
+    this.deadLetter(kind, payload, response.status, 'exhausted', maxAttempts);
+    throw new Error(`${kind} payload failed after ${maxAttempts} attempts`);
+  }
+
+  /**
+   * Re-sends stored payloads oldest first. Stops at the first transient
+   * failure so order is preserved for the next replay.
+   */
+  replay = async (): Promise<void> => {
+    const { outbox } = this.options;
+    if (!outbox || this.isReplaying) return;
+    this.isReplaying = true;
+
+    try {
+      const entries = await outbox.getAll();
+      for (const entry of entries) {
+        const response = await this.attempt(entry.kind, entry.payload, false);
+
+        if (!response.ok && isRetryable(response.status)) break;
+
+        if (response.ok) {
+          this.stats.replayed++;
+          this.emit('replayed', entry.kind, 1, response.status);
+        } else {
+          this.deadLetter(entry.kind, entry.payload, response.status, 'rejected', 1);
+        }
+
+        await outbox.delete(entry.id);
+      }
+
+      if (this.options.debug && entries.length > 0) {
+        console.log(`♻️  Replayed outbox (${entries.length} stored payloads)`);
+      }
+    } catch (error) {
+      console.warn('Failed to replay outbox:', error);
+    } finally {
+      this.isReplaying = false;
+    }
+  };
+
+  private async attempt(
+    kind: EventKind,
+    payload: any,
+    unloading: boolean
+  ): Promise<TransportResponse> {
+    try {
+      const response = await this.options.transport.send(kind, payload, { unloading });
+      this.stats.lastStatus = response.status;
+      return response;
+    } catch (error) {
+      if (this.options.debug) {
+        console.warn(`Transport error while sending ${kind}:`, error);
+      }
+      this.stats.lastStatus = 0;
+      return { ok: false, status: 0 };
+    }
+  }
+
+  private async store(kind: EventKind, payload: any): Promise<void> {
+    await this.options.outbox!.add(kind, payload);
+    this.stats.stored++;
+    this.emit('stored', kind, 0, 0);
+  }
+
+  private deadLetter(
+    kind: EventKind,
+    payload: any,
+    status: number,
+    reason: DeadLetter['reason'],
+    attempts: number
+  ): void {
+    const maxDeadLetters = this.options.maxDeadLetters ?? 100;
+
+    this.deadLetters.push({
+      kind,
+      payload,
+      status,
+      reason,
+      attempts,
+      failedAt: Date.now(),
+    });
+    if (this.deadLetters.length > maxDeadLetters) {
+      this.deadLetters.shift();
+    }
+
+    this.stats.deadLettered++;
+    this.emit('dead_letter', kind, attempts, status);
+  }
+
+  private emit(
+    type: DeliveryStatusEvent['type'],
+    kind: EventKind,
+    attempt: number,
+    status: number
+  ): void {
+    const event: DeliveryStatusEvent = {
+      type,
+      kind,
+      attempt,
+      status,
+      stats: this.getStats(),
+    };
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('Delivery status listener failed:', error);
+      }
+    });
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeCurrency, normalizeEcommerceEvent, productsFromJsonLd, roundAmount } from './ecommerce';
+
+describe('roundAmount', () => {
+  it('rounds to the minor unit of the currency', () => {
+    expect(roundAmount(10.006, 'USD')).toBe(10.01);
+    expect(roundAmount(1234.5, 'JPY')).toBe(1235);
+  });
+});
+
+describe('normalizeCurrency', () => {
+  it('uppercases codes and falls back on anything else', () => {
+    expect(normalizeCurrency(' eur ', 'USD')).toBe('EUR');
+    expect(normalizeCurrency('euro', 'USD')).toBe('USD');
+    expect(normalizeCurrency(undefined, 'USD')).toBe('USD');
+  });
+});
+
+describe('normalizeEcommerceEvent', () => {
+  it('values a viewed product in its own currency', () => {
+    const data = normalizeEcommerceEvent('productViewed', { product: { id: 'p1', price: 19.999, currency: 'gbp' } }, 'USD');
+
+    expect(data).toMatchObject({ currency: 'GBP', value: 20 });
+  });
+
+  it('makes removals negative', () => {
+    const added = normalizeEcommerceEvent('productAdded', { item: { id: 'p1', price: 5, quantity: 3, discount: 1 } }, 'USD');
+    const removed = normalizeEcommerceEvent('productRemoved', { item: { id: 'p1', price: 5, quantity: 1 } }, 'USD');
+
+    expect(added.value).toBe(14);
+    expect(removed.value).toBe(-5);
+  });
+
+  it('computes order totals, item count and coupons', () => {
+    const data = normalizeEcommerceEvent(
+      'purchase',
+      {
+        orderId: 'o1',
+        items: [
+          { id: 'p1', price: 10, quantity: 2, coupon: 'SPRING' },
+          { id: 'p2', price: 5.5, quantity: 1 },
+        ],
+        discount: 2,
+        tax: 1.85,
+        shipping: 4,
+        coupons: ['WELCOME', 'SPRING'],
+      },
+      'USD'
+    );
+
+    expect(data).toMatchObject({
+      currency: 'USD',
+      subtotal: 25.5,
+      revenue: 29.35,
+      value: 29.35,
+      itemCount: 3,
+      coupons: ['WELCOME', 'SPRING'],
+    });
+  });
+
+  it('keeps an explicit revenue', () => {
+    const data = normalizeEcommerceEvent('purchase', { orderId: 'o1', items: [], revenue: 99 }, 'USD');
+
+    expect(data.revenue).toBe(99);
+    expect(data.value).toBe(99);
+  });
+
+  it('makes refunds negative, from the amount or the items', () => {
+    expect(normalizeEcommerceEvent('refund', { orderId: 'o1', amount: 12 }, 'USD').value).toBe(-12);
+    expect(
+      normalizeEcommerceEvent('refund', { orderId: 'o1', items: [{ id: 'p1', price: 4, quantity: 2 }] }, 'USD').value
+    ).toBe(-8);
+  });
+
+  it('leaves checkout steps without items unvalued', () => {
+    const data = normalizeEcommerceEvent('checkoutStep', { step: 1 }, 'usd');
+
+    expect(data.currency).toBe('USD');
+    expect(data).not.toHaveProperty('value');
+  });
+});
+
+describe('productsFromJsonLd', () => {
+  it('reads products and their first offer from a graph', () => {
+    const products = productsFromJsonLd([
+      {
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'BreadcrumbList' },
+          {
+            '@type': 'Product',
+            sku: 'SKU-1',
+            name: 'Kettle',
+            brand: { '@type': 'Brand', name: 'Acme' },
+            offers: [{ price: '39.90', priceCurrency: 'EUR' }],
+          },
+        ],
+      },
+    ]);
+
+    expect(products).toEqual([
+      expect.objectContaining({ id: 'SKU-1', name: 'Kettle', brand: 'Acme', price: 39.9, currency: 'EUR' }),
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import { findJsonLdNodes } from './jsonld';
+
+export interface EcommerceProduct {
+  id: string;
+  name?: string;
+  sku?: string;
+  brand?: string;
+  category?: string;
+  variant?: string;
+  price?: number; // unit price in `currency`
+  currency?: string;
+  url?: string;
+  image?: string;
+  // Position within a list, for impressions
+  position?: number;
+  list?: string;
+}
+
+export interface LineItem extends EcommerceProduct {
+  quantity: number;
+  coupon?: string;
+  discount?: number; // off this line, in the order currency
+}
+
+export interface EcommerceOrder {
+  orderId: string;
+  currency?: string;
+  items: LineItem[];
+  // Computed from the items, discount, tax and shipping when omitted
+  revenue?: number;
+  tax?: number;
+  shipping?: number;
+  discount?: number;
+  coupons?: string[];
+  affiliation?: string;
+}
+
+/**
+ * The commerce events ThorbisAnalytics.trackEcommerce accepts, by name.
+ */
+export interface EcommerceEventMap {
+  productImpression: { products: EcommerceProduct[]; list?: string; currency?: string };
+  productViewed: { product: EcommerceProduct; currency?: string };
+  productAdded: { item: LineItem; currency?: string; cartId?: string };
+  productRemoved: { item: LineItem; currency?: string; cartId?: string };
+  checkoutStep: {
+    step: number;
+    name?: string;
+    items?: LineItem[];
+    currency?: string;
+    coupons?: string[];
+    option?: string; // e.g. the chosen shipping or payment method
+  };
+  purchase: EcommerceOrder;
+  refund: { orderId: string; currency?: string; items?: LineItem[]; amount?: number };
+}
+
+export type EcommerceEventType = keyof EcommerceEventMap;
+
+export const ECOMMERCE_EVENTS: EcommerceEventType[] = [
+  'productImpression',
+  'productViewed',
+  'productAdded',
+  'productRemoved',
+  'checkoutStep',
+  'purchase',
+  'refund',
+];
+
+const fractionDigits: Map<string, number> = new Map();
+
+/**
+ * Rounds an amount to the currency's minor unit, e.g. 0 decimals for JPY.
+ */
+export function roundAmount(amount: number, currency: string): number {
+  if (!fractionDigits.has(currency)) {
+    let digits = 2;
+    try {
+      digits =
+        new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions()
+          .maximumFractionDigits ?? 2;
+    } catch {
+      // Unknown currency code: keep cents
+    }
+    fractionDigits.set(currency, digits);
+  }
+  const factor = Math.pow(10, fractionDigits.get(currency) as number);
+  return Math.round(amount * factor) / factor;
+}
+
+export function normalizeCurrency(currency: string | undefined, fallback: string): string {
+  const code = (currency || fallback).trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : fallback;
+}
+
+function lineTotal(item: LineItem): number {
+  return (item.price || 0) * (item.quantity || 0) - (item.discount || 0);
+}
+
+function itemsTotal(items: LineItem[] = []): number {
+  return items.reduce((sum, item) => sum + lineTotal(item), 0);
+}
+
+/**
+ * Fills in the currency and computed amounts of a commerce event. Every
+ * event gets `currency` and, where money is involved, `value` (what
+ * attribution and reports use): negative for refunds and removals.
+ */
+export function normalizeEcommerceEvent<K extends EcommerceEventType>(
+  type: K,
+  data: EcommerceEventMap[K],
+  defaultCurrency: string
+): Record<string, any> {
+  const payload: Record<string, any> = { ...data };
+  // Products priced from JSON-LD offers carry their own currency
+  const currency = normalizeCurrency(
+    payload.currency || payload.product?.currency || payload.item?.currency,
+    defaultCurrency
+  );
+  const round = (amount: number) => roundAmount(amount, currency);
+  payload.currency = currency;
+
+  switch (type) {
+    case 'productViewed':
+      payload.value = round(payload.product?.price || 0);
+      break;
+    case 'productAdded':
+    case 'productRemoved': {
+      const value = round(lineTotal(payload.item));
+      payload.value = type === 'productRemoved' ? -value : value;
+      break;
+    }
+    case 'checkoutStep':
+      if (payload.items) payload.value = round(itemsTotal(payload.items));
+      break;
+    case 'purchase': {
+      const subtotal = itemsTotal(payload.items);
+      payload.subtotal = round(subtotal);
+      payload.revenue = round(
+        payload.revenue ?? subtotal - (payload.discount || 0) + (payload.tax || 0) + (payload.shipping || 0)
+      );
+      payload.value = payload.revenue;
+      payload.itemCount = (payload.items || []).reduce(
+        (sum: number, item: LineItem) => sum + (item.quantity || 0),
+        0
+      );
+      // Line item coupons count towards the order's coupon list
+      payload.coupons = Array.from(
+        new Set([
+          ...(payload.coupons || []),
+          ...(payload.items || []).map((item: LineItem) => item.coupon).filter(Boolean),
+        ])
+      );
+      break;
+    }
+    case 'refund':
+      payload.value = -round(payload.amount ?? itemsTotal(payload.items));
+      break;
+  }
+
+  return payload;
+}
+
+function firstString(value: any): string | undefined {
+  if (Array.isArray(value)) return firstString(value[0]);
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') return firstString(value.name || value.url || value['@id']);
+  return undefined;
+}
+
+/**
+ * Maps schema.org `Product` JSON-LD nodes to products.
+ */
+export function productsFromJsonLd(documents: any[]): EcommerceProduct[] {
+  return findJsonLdNodes(documents, 'Product').map((node) => {
+    const offer = Array.isArray(node.offers) ? node.offers[0] : node.offers;
+    const price = Number(offer?.price ?? offer?.lowPrice);
+
+    return {
+      id: String(node.sku || node.productID || node['@id'] || node.url || node.name || ''),
+      name: firstString(node.name),
+      sku: node.sku,
+      brand: firstString(node.brand),
+      category: firstString(node.category),
+      url: firstString(node.url),
+      image: firstString(node.image),
+      price: Number.isFinite(price) ? price : undefined,
+      currency: offer?.priceCurrency,
+    };
+  });
+}
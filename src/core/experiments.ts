@@ -0,0 +1,172 @@
+import { hashToUnit } from './sampling';
+
+export interface ExperimentVariant {
+  key: string;
+  weight?: number; // relative; defaults to 1
+}
+
+export interface ExperimentDefinition {
+  key: string;
+  variants: Array<string | ExperimentVariant>;
+  // Share of visitors enrolled, 0-1; the rest see the default experience
+  traffic?: number;
+  enabled?: boolean;
+}
+
+export interface ExperimentAssignment {
+  experiment: string;
+  variant: string;
+  assignedAt: number;
+  // Set once the variant has been rendered to the visitor
+  exposedAt?: number;
+}
+
+export interface ExperimentManagerOptions {
+  getAnonymousId: () => string;
+  canPersist: () => boolean;
+}
+
+const STORAGE_KEY = 'thorbis_experiments';
+
+export const EXPERIMENT_STORAGE_KEYS = [STORAGE_KEY];
+
+function normalizeVariants(variants: Array<string | ExperimentVariant>): ExperimentVariant[] {
+  return variants.map((variant) => (typeof variant === 'string' ? { key: variant } : variant));
+}
+
+/**
+ * Picks a variant from the hash of the experiment key and anonymous id, so
+ * a visitor gets the same variant on every page and device that shares the
+ * id. Returns null when the visitor falls outside the enrolled traffic.
+ */
+export function assignVariant(experiment: ExperimentDefinition, anonymousId: string): string | null {
+  const variants = normalizeVariants(experiment.variants);
+  const traffic = experiment.traffic ?? 1;
+  if (variants.length === 0 || experiment.enabled === false) return null;
+
+  const bucket = hashToUnit(`${experiment.key}:${anonymousId}`);
+  if (bucket >= traffic) return null;
+
+  // Spread the enrolled range over the variants by weight
+  const total = variants.reduce((sum, variant) => sum + (variant.weight ?? 1), 0);
+  let threshold = (bucket / traffic) * total;
+  for (const variant of variants) {
+    threshold -= variant.weight ?? 1;
+    if (threshold < 0) return variant.key;
+  }
+  return variants[variants.length - 1].key;
+}
+
+/**
+ * Hands out experiment variants and remembers them. Assignments are sticky:
+ * once stored, a visitor keeps their variant even if weights change later,
+ * unless the variant is removed. Looking a variant up does not count as an
+ * exposure; call `expose` when it is actually rendered.
+ */
+export class ExperimentManager {
+  private readonly options: ExperimentManagerOptions;
+  private readonly definitions: Map<string, ExperimentDefinition> = new Map();
+  private assignments: Record<string, ExperimentAssignment> = {};
+  // Exposure events already sent from this page
+  private readonly exposed: Set<string> = new Set();
+
+  constructor(definitions: ExperimentDefinition[] = [], options: ExperimentManagerOptions) {
+    this.options = options;
+    this.assignments = this.load();
+    definitions.forEach((definition) => this.define(definition));
+  }
+
+  define(definition: ExperimentDefinition): void {
+    this.definitions.set(definition.key, definition);
+  }
+
+  getVariant(key: string): string | null {
+    const variant = this.peekVariant(key);
+    if (variant && this.assignments[key]?.variant !== variant) {
+      this.assignments[key] = { experiment: key, variant, assignedAt: Date.now() };
+      this.store();
+    }
+    return variant;
+  }
+
+  /**
+   * The variant `getVariant` would return, without storing an assignment,
+   * so it is safe to call while rendering.
+   */
+  peekVariant(key: string): string | null {
+    const definition = this.definitions.get(key);
+    if (!definition || definition.enabled === false) return null;
+
+    const stored = this.assignments[key];
+    const keys = normalizeVariants(definition.variants).map((variant) => variant.key);
+    if (stored && keys.includes(stored.variant)) return stored.variant;
+
+    return assignVariant(definition, this.options.getAnonymousId());
+  }
+
+  /**
+   * Pins a variant, e.g. for QA or previews.
+   */
+  force(key: string, variant: string): void {
+    this.assignments[key] = { experiment: key, variant, assignedAt: Date.now() };
+    this.store();
+  }
+
+  /**
+   * Marks the visitor as exposed. Returns the assignment the first time per
+   * experiment on this page, so the caller logs one exposure event.
+   */
+  expose(key: string): ExperimentAssignment | null {
+    const variant = this.getVariant(key);
+    if (!variant) return null;
+
+    const assignment = this.assignments[key];
+    if (!assignment.exposedAt) {
+      assignment.exposedAt = Date.now();
+      this.store();
+    }
+
+    if (this.exposed.has(`${key}:${variant}`)) return null;
+    this.exposed.add(`${key}:${variant}`);
+    return { ...assignment };
+  }
+
+  /**
+   * Variants the visitor has been exposed to, for tagging events.
+   */
+  getActiveVariants(): Record<string, string> {
+    const active: Record<string, string> = {};
+    Object.values(this.assignments).forEach((assignment) => {
+      const definition = this.definitions.get(assignment.experiment);
+      if (assignment.exposedAt && definition && definition.enabled !== false) {
+        active[assignment.experiment] = assignment.variant;
+      }
+    });
+    return active;
+  }
+
+  /**
+   * Re-persists assignments, e.g. once consent is granted.
+   */
+  persist(): void {
+    this.store();
+  }
+
+  private load(): Record<string, ExperimentAssignment> {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return {};
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private store(): void {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.assignments));
+    } catch {
+      // Storage may be unavailable (e.g. privacy mode)
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FunnelManager } from './funnels';
+import type { FunnelDefinition } from './funnels';
+
+const MINUTE = 60000;
+const globals = globalThis as any;
+const store = new Map<string, string>();
+
+const checkout: FunnelDefinition = {
+  id: 'checkout',
+  steps: [
+    { name: 'cart', url: '/cart' },
+    { name: 'pay', url: '/pay' },
+    { name: 'done', event: 'purchase' },
+  ],
+  timeout: 30 * MINUTE,
+};
+
+function createManager() {
+  const emitted: Array<{ type: string; data: Record<string, any> }> = [];
+  const manager = new FunnelManager([checkout], {
+    emit: (type, data) => emitted.push({ type, data }),
+    canPersist: () => true,
+  });
+  return { manager, emitted };
+}
+
+function pageView(path: string) {
+  return { type: 'page_view', timestamp: Date.now(), data: { path } };
+}
+
+describe('FunnelManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store.clear();
+    globals.window = {};
+    globals.localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete globals.window;
+    delete globals.localStorage;
+  });
+
+  it('abandons a funnel left active on the next visit once it timed out', () => {
+    const first = createManager();
+    first.manager.handleEvent(pageView('/cart'));
+    first.manager.handleEvent(pageView('/pay'));
+    // The tab closes: timers die with it
+    first.manager.destroy();
+
+    vi.setSystemTime(Date.now() + 2 * 60 * MINUTE);
+    const next = createManager();
+    expect(next.emitted).toEqual([]);
+
+    vi.advanceTimersByTime(0);
+    expect(next.emitted).toEqual([
+      expect.objectContaining({
+        type: 'funnelAbandoned',
+        data: expect.objectContaining({ funnel: 'checkout', lastStep: 'pay', lastStepIndex: 1 }),
+      }),
+    ]);
+    expect(next.manager.getState('checkout')?.status).toBe('abandoned');
+  });
+
+  it('carries on with progress that has not timed out', () => {
+    const first = createManager();
+    first.manager.handleEvent(pageView('/cart'));
+    first.manager.destroy();
+
+    vi.setSystemTime(Date.now() + 5 * MINUTE);
+    const next = createManager();
+    next.manager.handleEvent(pageView('/pay'));
+    next.manager.handleEvent({ type: 'purchase', timestamp: Date.now(), data: {} });
+    vi.advanceTimersByTime(60 * MINUTE);
+
+    expect(next.emitted.map((event) => event.type)).toEqual([
+      'funnelStepReached',
+      'funnelStepReached',
+      'funnelCompleted',
+    ]);
+  });
+});
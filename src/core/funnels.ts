@@ -0,0 +1,308 @@
+import type { AnalyticsEvent } from './types';
+
+/**
+ * A funnel step matches one of: a page url pattern (`*` matches any run of
+ * characters, `:name` one path segment), a tracked event name (optionally
+ * with property values that must match), or a form id from FormsTracker.
+ */
+export type FunnelStep = { name: string } & (
+  | { url: string | RegExp }
+  | { event: string; where?: Record<string, unknown> }
+  | { form: string }
+);
+
+export interface FunnelDefinition {
+  id: string;
+  steps: FunnelStep[];
+  // A started funnel with no progress for this long is abandoned
+  timeout?: number;
+}
+
+export interface FunnelState {
+  id: string;
+  status: 'idle' | 'active' | 'completed' | 'abandoned';
+  // Index of the last step reached, -1 before the first
+  currentStep: number;
+  steps: Array<{ name: string; reachedAt?: number }>;
+  startedAt?: number;
+  updatedAt?: number;
+}
+
+export type FunnelListener = (state: FunnelState) => void;
+export type FunnelEmit = (type: string, data: Record<string, any>) => void;
+
+export interface FunnelManagerOptions {
+  emit: FunnelEmit;
+  canPersist: () => boolean;
+}
+
+const STORAGE_KEY = 'thorbis_funnels';
+
+export const FUNNEL_STORAGE_KEYS = [STORAGE_KEY];
+const DEFAULT_TIMEOUT = 1800000; // 30 minutes
+const PAGE_EVENTS = ['page_view', 'pageView'];
+
+function compileUrlPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+
+  const source = pattern
+    .split('*')
+    .map((part) =>
+      part
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/:[A-Za-z_][A-Za-z0-9_]*/g, '[^/]+')
+    )
+    .join('.*');
+  return new RegExp(`^${source}/?$`);
+}
+
+function pathOf(event: AnalyticsEvent): string | null {
+  const value = event.data?.path || event.data?.url;
+  if (typeof value !== 'string') return null;
+
+  try {
+    return new URL(value, 'http://localhost').pathname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follows visitors through the defined funnels as events are recorded.
+ * Steps must be reached in order; reaching the first step again restarts a
+ * funnel. Progress is kept in localStorage, once `canPersist` allows it,
+ * so it survives page loads and closed tabs: a funnel left active when the
+ * visitor went away is abandoned on their next page load once its timeout
+ * has passed. Emits `funnelStepReached`, `funnelCompleted` and
+ * `funnelAbandoned` with the time spent between steps.
+ */
+export class FunnelManager {
+  private readonly definitions: Map<string, FunnelDefinition> = new Map();
+  private readonly patterns: Map<string, RegExp[]> = new Map();
+  private states: Map<string, FunnelState> = new Map();
+  private readonly timers: Map<string, NodeJS.Timeout> = new Map();
+  private readonly listeners: Set<FunnelListener> = new Set();
+  private readonly options: FunnelManagerOptions;
+
+  constructor(definitions: FunnelDefinition[] = [], options: FunnelManagerOptions) {
+    this.options = options;
+    const stored = this.load();
+    definitions.forEach((definition) => this.define(definition, stored[definition.id]));
+  }
+
+  define(definition: FunnelDefinition, stored?: FunnelState): void {
+    if (definition.steps.length === 0) {
+      console.warn(`Funnel "${definition.id}" has no steps, ignoring`);
+      return;
+    }
+
+    this.definitions.set(definition.id, definition);
+    this.patterns.set(
+      definition.id,
+      definition.steps.map((step) => ('url' in step ? compileUrlPattern(step.url) : /^$/))
+    );
+
+    const state = stored && stored.steps.length === definition.steps.length ? stored : this.initialState(definition);
+    this.states.set(definition.id, state);
+
+    // Progress saved on an earlier page may have gone stale meanwhile
+    if (state.status === 'active') this.scheduleTimeout(definition.id);
+  }
+
+  getState(id: string): FunnelState | undefined {
+    const state = this.states.get(id);
+    return state && { ...state, steps: state.steps.map((step) => ({ ...step })) };
+  }
+
+  getStates(): FunnelState[] {
+    return Array.from(this.states.keys()).map((id) => this.getState(id) as FunnelState);
+  }
+
+  onChange(listener: FunnelListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Advances every funnel whose next step (or first step) the event matches.
+   */
+  handleEvent(event: AnalyticsEvent): void {
+    this.definitions.forEach((definition, id) => {
+      const state = this.states.get(id) as FunnelState;
+      const next = state.status === 'active' ? state.currentStep + 1 : 0;
+
+      if (next < definition.steps.length && this.matches(id, next, event)) {
+        this.reach(definition, next, event.timestamp);
+      } else if (state.status === 'active' && state.currentStep > 0 && this.matches(id, 0, event)) {
+        // Back at the start: begin again rather than carrying on
+        this.reach(definition, 0, event.timestamp);
+      }
+    });
+  }
+
+  reset(id?: string): void {
+    (id ? [id] : Array.from(this.definitions.keys())).forEach((funnelId) => {
+      const definition = this.definitions.get(funnelId);
+      if (!definition) return;
+      this.clearTimeout(funnelId);
+      this.update(this.initialState(definition));
+    });
+  }
+
+  /**
+   * Re-persists progress, e.g. once consent is granted.
+   */
+  persist(): void {
+    this.store();
+  }
+
+  destroy(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.listeners.clear();
+  }
+
+  private matches(id: string, index: number, event: AnalyticsEvent): boolean {
+    const step = (this.definitions.get(id) as FunnelDefinition).steps[index];
+
+    if ('url' in step) {
+      const path = PAGE_EVENTS.includes(event.type) ? pathOf(event) : null;
+      return path !== null && (this.patterns.get(id) as RegExp[])[index].test(path);
+    }
+    if ('form' in step) {
+      return event.type === 'formSubmission' && event.data?.formId === step.form;
+    }
+    return (
+      event.type === step.event &&
+      Object.entries(step.where || {}).every(([key, value]) => event.data?.[key] === value)
+    );
+  }
+
+  private reach(definition: FunnelDefinition, index: number, timestamp: number): void {
+    const previous = this.states.get(definition.id) as FunnelState;
+    const state: FunnelState =
+      index === 0
+        ? { ...this.initialState(definition), status: 'active', startedAt: timestamp }
+        : { ...previous, steps: previous.steps.map((step) => ({ ...step })) };
+
+    const lastReachedAt = index > 0 ? state.steps[index - 1].reachedAt : undefined;
+    state.steps[index].reachedAt = timestamp;
+    state.currentStep = index;
+    state.updatedAt = timestamp;
+
+    const completed = index === definition.steps.length - 1;
+    if (completed) state.status = 'completed';
+    this.update(state);
+
+    const step = definition.steps[index];
+    this.options.emit('funnelStepReached', {
+      funnel: definition.id,
+      step: step.name,
+      stepIndex: index,
+      totalSteps: definition.steps.length,
+      timeFromPrevious: lastReachedAt !== undefined ? timestamp - lastReachedAt : 0,
+      timeFromStart: timestamp - (state.startedAt as number),
+    });
+
+    if (completed) {
+      this.clearTimeout(definition.id);
+      this.options.emit('funnelCompleted', {
+        funnel: definition.id,
+        totalTime: timestamp - (state.startedAt as number),
+        stepDurations: this.stepDurations(state),
+      });
+    } else {
+      this.scheduleTimeout(definition.id);
+    }
+  }
+
+  private abandon(id: string): void {
+    const state = this.states.get(id);
+    const definition = this.definitions.get(id);
+    if (!state || !definition || state.status !== 'active') return;
+
+    const now = Date.now();
+    this.options.emit('funnelAbandoned', {
+      funnel: id,
+      lastStep: definition.steps[state.currentStep].name,
+      lastStepIndex: state.currentStep,
+      totalSteps: definition.steps.length,
+      timeInFunnel: (state.updatedAt as number) - (state.startedAt as number),
+      timeSinceLastStep: now - (state.updatedAt as number),
+      stepDurations: this.stepDurations(state),
+    });
+    this.update({ ...state, status: 'abandoned', updatedAt: now });
+  }
+
+  // Time taken to reach each step from the one before it
+  private stepDurations(state: FunnelState): Record<string, number> {
+    const durations: Record<string, number> = {};
+    state.steps.forEach((step, index) => {
+      const before = state.steps[index - 1]?.reachedAt;
+      if (index > 0 && step.reachedAt !== undefined && before !== undefined) {
+        durations[step.name] = step.reachedAt - before;
+      }
+    });
+    return durations;
+  }
+
+  private scheduleTimeout(id: string): void {
+    this.clearTimeout(id);
+    const state = this.states.get(id) as FunnelState;
+    const timeout = this.definitions.get(id)?.timeout ?? DEFAULT_TIMEOUT;
+    const remaining = (state.updatedAt as number) + timeout - Date.now();
+
+    // Stale progress from an earlier visit is abandoned on a timer too, so
+    // nothing is emitted while the owner is still being constructed
+    this.timers.set(id, setTimeout(() => this.abandon(id), Math.max(0, remaining)));
+  }
+
+  private clearTimeout(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  private initialState(definition: FunnelDefinition): FunnelState {
+    return {
+      id: definition.id,
+      status: 'idle',
+      currentStep: -1,
+      steps: definition.steps.map(({ name }) => ({ name })),
+    };
+  }
+
+  private update(state: FunnelState): void {
+    this.states.set(state.id, state);
+    this.store();
+
+    const snapshot = this.getState(state.id) as FunnelState;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.warn('Funnel listener failed:', error);
+      }
+    });
+  }
+
+  private load(): Record<string, FunnelState> {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return {};
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private store(): void {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.states)));
+    } catch {
+      // Storage may be unavailable (e.g. privacy mode)
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { deviceBucket, filterHeatmap, segmentHeatmap, sizeCanvas } from './heatmap';
+import type { HeatmapPoint, ScrollSample } from './heatmap';
+
+function point(x: number, y: number, overrides: Partial<HeatmapPoint> = {}): HeatmapPoint {
+  return { x, y, value: 1, type: 'click', timestamp: 1000, viewportWidth: 1280, path: '/', ...overrides };
+}
+
+function scroll(depth: number): ScrollSample {
+  return { depth, timestamp: 1000, viewportWidth: 1280, path: '/' };
+}
+
+describe('deviceBucket', () => {
+  it('buckets by viewport width', () => {
+    expect(deviceBucket(375)).toBe('mobile');
+    expect(deviceBucket(768)).toBe('tablet');
+    expect(deviceBucket(1440)).toBe('desktop');
+  });
+});
+
+describe('filterHeatmap', () => {
+  it('filters points and scroll samples by device, time and path', () => {
+    const snapshot = {
+      points: [
+        point(10, 10),
+        point(20, 20, { viewportWidth: 375 }),
+        point(30, 30, { timestamp: 5000 }),
+        point(40, 40, { path: '/pricing' }),
+      ],
+      scroll: [scroll(50), { ...scroll(80), viewportWidth: 375 }],
+    };
+
+    const filtered = filterHeatmap(snapshot, { device: 'desktop', from: 500, to: 2000, path: '/' });
+
+    expect(filtered.points.map(({ x }) => x)).toEqual([10]);
+    expect(filtered.scroll.map(({ depth }) => depth)).toEqual([50]);
+  });
+});
+
+describe('segmentHeatmap', () => {
+  it('finds hotspots at the weighted centre of the busiest cells', () => {
+    const { hotspots } = segmentHeatmap({
+      points: [point(11, 11), point(13, 13), point(12, 12, { value: 2 }), point(80, 80)],
+      scroll: [scroll(100)],
+    });
+
+    expect(hotspots).toHaveLength(1);
+    expect(hotspots[0]).toEqual({ x: 12, y: 12, radius: 2.5, intensity: 1 });
+  });
+
+  it('marks untouched cells above the deepest scroll as coldspots', () => {
+    const { coldspots } = segmentHeatmap({ points: [point(5, 5)], scroll: [scroll(50)] }, 2);
+
+    // The top row was seen; its right cell got no activity
+    expect(coldspots).toEqual([{ x: 50, y: 0, width: 50, height: 50 }]);
+  });
+
+  it('reports nothing without points', () => {
+    expect(segmentHeatmap({ points: [], scroll: [scroll(100)] })).toEqual({ hotspots: [], coldspots: [] });
+  });
+
+  it('keeps points on the far edge in the last cell', () => {
+    const { hotspots } = segmentHeatmap({ points: [point(100, 100)], scroll: [] }, 10);
+
+    expect(hotspots).toEqual([{ x: 100, y: 100, radius: 5, intensity: 1 }]);
+  });
+});
+
+describe('sizeCanvas', () => {
+  const canvas = () => ({ width: 0, height: 0, style: {} }) as unknown as HTMLCanvasElement;
+
+  it('keeps small documents at full size', () => {
+    const target = canvas();
+
+    expect(sizeCanvas(target, 1280, 4000)).toBe(1);
+    expect([target.width, target.height]).toEqual([1280, 4000]);
+  });
+
+  it('scales tall documents down to the side limit', () => {
+    const target = canvas();
+    sizeCanvas(target, 400, 32768);
+
+    expect(target.height).toBe(16384);
+    expect(target.style.height).toBe('32768px');
+  });
+
+  it('scales wide and tall documents down by area', () => {
+    const target = canvas();
+    const scale = sizeCanvas(target, 4000, 12000);
+
+    expect(scale).toBeLessThan(1);
+    expect(target.width * target.height).toBeLessThanOrEqual(16777216 + target.width + target.height);
+    expect(target.width / target.height).toBeCloseTo(4000 / 12000, 3);
+  });
+});
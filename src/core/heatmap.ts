@@ -0,0 +1,303 @@
+export type HeatmapPointType = 'click' | 'move' | 'hover';
+
+export type HeatmapMode = HeatmapPointType | 'scroll';
+
+export type DeviceBucket = 'mobile' | 'tablet' | 'desktop';
+
+export interface HeatmapPoint {
+  x: number; // 0-100, share of the document width
+  y: number; // 0-100, share of the document height
+  value: number; // 0-1
+  type: HeatmapPointType;
+  timestamp: number;
+  viewportWidth: number;
+  path: string;
+}
+
+/**
+ * How far one page view scrolled, 0-100 of the document height.
+ */
+export interface ScrollSample {
+  depth: number;
+  timestamp: number;
+  viewportWidth: number;
+  path: string;
+}
+
+export interface HeatmapSnapshot {
+  points: HeatmapPoint[];
+  scroll: ScrollSample[];
+}
+
+export interface HeatmapFilter {
+  device?: DeviceBucket;
+  from?: number;
+  to?: number;
+  path?: string;
+}
+
+export interface HeatmapSegments {
+  hotspots: Array<{ x: number; y: number; radius: number; intensity: number }>;
+  coldspots: Array<{ x: number; y: number; width: number; height: number }>;
+}
+
+export interface DrawOptions {
+  radius?: number; // px
+  opacity?: number; // 0-1, of the hottest colour
+}
+
+// Upper viewport widths, matching common CSS breakpoints
+export const DEVICE_BUCKETS: Record<DeviceBucket, [number, number]> = {
+  mobile: [0, 768],
+  tablet: [768, 1024],
+  desktop: [1024, Infinity],
+};
+
+// Browsers limit both sides and total pixels; iOS Safari stops at 4096²
+const MAX_CANVAS_SIZE = 16384;
+const MAX_CANVAS_AREA = 16777216;
+
+const GRADIENT: Array<[number, string]> = [
+  [0.25, 'rgb(0,0,255)'],
+  [0.55, 'rgb(0,255,0)'],
+  [0.85, 'rgb(255,255,0)'],
+  [1, 'rgb(255,0,0)'],
+];
+
+export function deviceBucket(viewportWidth: number): DeviceBucket {
+  const match = (Object.keys(DEVICE_BUCKETS) as DeviceBucket[]).find((bucket) => {
+    const [min, max] = DEVICE_BUCKETS[bucket];
+    return viewportWidth >= min && viewportWidth < max;
+  });
+  return match || 'desktop';
+}
+
+export function filterHeatmap(snapshot: HeatmapSnapshot, filter: HeatmapFilter): HeatmapSnapshot {
+  const keep = (item: { timestamp: number; viewportWidth: number; path: string }) =>
+    (!filter.device || deviceBucket(item.viewportWidth) === filter.device) &&
+    (filter.from === undefined || item.timestamp >= filter.from) &&
+    (filter.to === undefined || item.timestamp <= filter.to) &&
+    (!filter.path || item.path === filter.path);
+
+  return {
+    points: snapshot.points.filter(keep),
+    scroll: snapshot.scroll.filter(keep),
+  };
+}
+
+/**
+ * Buckets points into a grid of `cells` x `cells` over the document. Cells
+ * with at least 70% of the busiest cell's weight are hotspots; cells with
+ * no activity above the deepest scroll are coldspots, i.e. seen but ignored.
+ */
+export function segmentHeatmap(snapshot: HeatmapSnapshot, cells: number = 20): HeatmapSegments {
+  const size = 100 / cells;
+  const grid: Map<string, { x: number; y: number; weight: number }> = new Map();
+
+  snapshot.points.forEach((point) => {
+    const column = Math.min(cells - 1, Math.floor(point.x / size));
+    const row = Math.min(cells - 1, Math.floor(point.y / size));
+    const cell = grid.get(`${column}:${row}`) || { x: 0, y: 0, weight: 0 };
+    // Weighted centre, so the hotspot sits where the activity is
+    cell.x += point.x * point.value;
+    cell.y += point.y * point.value;
+    cell.weight += point.value;
+    grid.set(`${column}:${row}`, cell);
+  });
+
+  const max = Math.max(0, ...Array.from(grid.values()).map((cell) => cell.weight));
+  const hotspots = Array.from(grid.values())
+    .filter((cell) => max > 0 && cell.weight >= max * 0.7)
+    .map((cell) => ({
+      x: cell.x / cell.weight,
+      y: cell.y / cell.weight,
+      radius: size / 2,
+      intensity: cell.weight / max,
+    }))
+    .sort((a, b) => b.intensity - a.intensity);
+
+  const coldspots: HeatmapSegments['coldspots'] = [];
+  const reached = Math.max(0, ...snapshot.scroll.map((sample) => sample.depth));
+  if (snapshot.points.length > 0) {
+    for (let row = 0; row < cells && (row + 1) * size <= reached; row++) {
+      for (let column = 0; column < cells; column++) {
+        if (!grid.has(`${column}:${row}`)) {
+          coldspots.push({ x: column * size, y: row * size, width: size, height: size });
+        }
+      }
+    }
+  }
+
+  return { hotspots, coldspots };
+}
+
+/**
+ * Sizes a canvas to cover `width` x `height` CSS pixels, scaled down when
+ * the document is too large to allocate. Returns the scale applied.
+ */
+export function sizeCanvas(canvas: HTMLCanvasElement, width: number, height: number): number {
+  const scale = Math.min(
+    1,
+    MAX_CANVAS_SIZE / Math.max(width, height, 1),
+    Math.sqrt(MAX_CANVAS_AREA / Math.max(width * height, 1))
+  );
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  return scale;
+}
+
+function createPalette(): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const gradient = context.createLinearGradient(0, 0, 256, 0);
+  GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, 256, 1);
+  return context.getImageData(0, 0, 256, 1).data;
+}
+
+let palette: Uint8ClampedArray | null = null;
+
+/**
+ * Draws points as a density heatmap: every point adds a soft grey blob,
+ * then the accumulated darkness is mapped to the blue-to-red palette.
+ */
+export function drawHeatmap(canvas: HTMLCanvasElement, points: HeatmapPoint[], options: DrawOptions = {}): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const scale = width / (parseFloat(canvas.style.width) || width);
+  const radius = Math.max(2, (options.radius ?? 25) * scale);
+  const opacity = options.opacity ?? 0.6;
+  context.clearRect(0, 0, width, height);
+  if (points.length === 0) return;
+
+  points.forEach((point) => {
+    const x = (point.x / 100) * width;
+    const y = (point.y / 100) * height;
+    const gradient = context.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, 'rgba(0,0,0,1)');
+    gradient.addColorStop(1, 'rgba(0,0,0,0)');
+    context.globalAlpha = Math.min(1, Math.max(0.05, point.value) * 0.5);
+    context.fillStyle = gradient;
+    context.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+  });
+  context.globalAlpha = 1;
+
+  palette = palette || createPalette();
+  const image = context.getImageData(0, 0, width, height);
+  const pixels = image.data;
+  for (let index = 3; index < pixels.length; index += 4) {
+    const alpha = pixels[index];
+    if (!alpha) continue;
+    const offset = alpha * 4;
+    pixels[index - 3] = palette[offset];
+    pixels[index - 2] = palette[offset + 1];
+    pixels[index - 1] = palette[offset + 2];
+    pixels[index] = Math.round(alpha * opacity);
+  }
+  context.putImageData(image, 0, 0);
+}
+
+/**
+ * Shades each band of the document by the share of page views that
+ * scrolled at least that far, with a label every 10%.
+ */
+export function drawScrollMap(canvas: HTMLCanvasElement, samples: ScrollSample[], options: DrawOptions = {}): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const opacity = options.opacity ?? 0.6;
+  context.clearRect(0, 0, width, height);
+  if (samples.length === 0) return;
+
+  palette = palette || createPalette();
+  for (let band = 0; band < 100; band++) {
+    const reached = samples.filter((sample) => sample.depth > band).length / samples.length;
+    const offset = Math.round(reached * 255) * 4;
+    context.fillStyle = `rgba(${palette[offset]},${palette[offset + 1]},${palette[offset + 2]},${opacity * Math.max(reached, 0.15)})`;
+    context.fillRect(0, (band / 100) * height, width, height / 100 + 1);
+  }
+
+  const scale = width / (parseFloat(canvas.style.width) || width);
+  context.font = `${Math.round(12 * scale)}px sans-serif`;
+  context.textBaseline = 'bottom';
+  for (let band = 10; band < 100; band += 10) {
+    const reached = samples.filter((sample) => sample.depth >= band).length / samples.length;
+    const y = (band / 100) * height;
+    context.fillStyle = 'rgba(0,0,0,0.6)';
+    context.fillRect(0, y, width, Math.max(1, scale));
+    context.fillStyle = '#fff';
+    context.fillText(` ${Math.round(reached * 100)}% reached ${band}% `, 8 * scale, y - 2 * scale);
+  }
+}
+
+/**
+ * Outlines hotspots and hatches coldspots on top of an already drawn map.
+ */
+export function drawSegments(canvas: HTMLCanvasElement, segments: HeatmapSegments): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const scale = width / (parseFloat(canvas.style.width) || width);
+
+  context.fillStyle = 'rgba(59,130,246,0.08)';
+  segments.coldspots.forEach((spot) => {
+    context.fillRect((spot.x / 100) * width, (spot.y / 100) * height, (spot.width / 100) * width, (spot.height / 100) * height);
+  });
+
+  context.strokeStyle = 'rgba(220,38,38,0.9)';
+  context.lineWidth = 2 * scale;
+  segments.hotspots.forEach((spot) => {
+    context.beginPath();
+    context.ellipse(
+      (spot.x / 100) * width,
+      (spot.y / 100) * height,
+      (spot.radius / 100) * width,
+      (spot.radius / 100) * height,
+      0,
+      0,
+      Math.PI * 2
+    );
+    context.stroke();
+  });
+}
+
+/**
+ * Flattens the heatmap onto a solid background with a caption and returns
+ * it as a PNG. Only the canvas is exported: the page underneath is DOM,
+ * which a canvas cannot capture, so pair it with a screenshot if needed.
+ */
+export function exportHeatmapPng(
+  canvas: HTMLCanvasElement,
+  options: { background?: string; caption?: string } = {}
+): Promise<Blob> {
+  const output = document.createElement('canvas');
+  const captionHeight = options.caption ? 32 : 0;
+  output.width = canvas.width;
+  output.height = canvas.height + captionHeight;
+
+  const context = output.getContext('2d');
+  if (!context) return Promise.reject(new Error('Canvas 2D context unavailable'));
+
+  context.fillStyle = options.background || '#ffffff';
+  context.fillRect(0, 0, output.width, output.height);
+  context.drawImage(canvas, 0, captionHeight);
+  if (options.caption) {
+    context.fillStyle = '#111827';
+    context.font = '14px sans-serif';
+    context.textBaseline = 'middle';
+    context.fillText(options.caption, 12, captionHeight / 2);
+  }
+
+  return new Promise((resolve, reject) => {
+    output.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png');
+  });
+}
@@ -0,0 +1,201 @@
+import type { UserTraits } from './types';
+
+/**
+ * Ids that tie an event to a browser session, shared by the browser client
+ * and the server SDK so server-side events can be joined to client ones.
+ */
+export interface Identity {
+  sessionId: string;
+  anonymousId: string;
+  userId?: string;
+}
+
+export const IDENTITY_COOKIE = 'thorbis_identity';
+
+export const IDENTITY_HEADERS = {
+  sessionId: 'x-thorbis-session-id',
+  anonymousId: 'x-thorbis-anonymous-id',
+  userId: 'x-thorbis-user-id',
+} as const;
+
+/**
+ * crypto.randomUUID where available. Browsers only expose it in secure
+ * contexts, so plain-http hosts (LAN, dev servers) get a Math.random v4 UUID.
+ */
+export function randomId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+export function encodeIdentity(identity: Identity): string {
+  return encodeURIComponent(JSON.stringify(identity));
+}
+
+export function decodeIdentity(value: string | null | undefined): Identity | null {
+  if (!value) return null;
+
+  try {
+    const identity = JSON.parse(decodeURIComponent(value));
+    return typeof identity?.sessionId === 'string' && typeof identity?.anonymousId === 'string'
+      ? identity
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const ANONYMOUS_ID_KEY = 'anonymous_id';
+const USER_KEY = 'thorbis_user';
+
+export const IDENTITY_STORAGE_KEYS = [ANONYMOUS_ID_KEY, USER_KEY];
+
+export interface IdentityManagerOptions {
+  // Used as the anonymous id whenever nothing may be persisted
+  fallbackId: string;
+  // Whether identifiers may be written to storage, e.g. analytics consent
+  canPersist: () => boolean;
+}
+
+export interface IdentifyResult {
+  userId: string;
+  traits: UserTraits;
+  // Set the first time an anonymous visitor is identified: alias it to the user
+  previousId?: string;
+}
+
+/**
+ * Owns who the visitor is. Anonymous visitors get a persistent random id;
+ * `identify` links that id to a known user once, so everything recorded
+ * before login can be merged into the user's history. Traits accumulate
+ * across calls and page loads. `reset` (logout) forgets the user and starts
+ * a fresh anonymous id, so the next person on a shared device is not
+ * stitched to the previous one.
+ */
+export class IdentityManager {
+  private readonly options: IdentityManagerOptions;
+  private userId: string | null = null;
+  private traits: UserTraits = {};
+
+  constructor(options: IdentityManagerOptions) {
+    this.options = options;
+
+    const stored = this.read(USER_KEY);
+    if (stored) {
+      try {
+        const user = JSON.parse(stored);
+        this.userId = typeof user?.userId === 'string' ? user.userId : null;
+        this.traits = user?.traits || {};
+      } catch {
+        // Ignore corrupt entries; the next identify overwrites them
+      }
+    }
+  }
+
+  get anonymousId(): string {
+    if (!this.options.canPersist()) return this.options.fallbackId;
+
+    let id = this.read(ANONYMOUS_ID_KEY);
+    if (!id) {
+      id = randomId();
+      if (!this.write(ANONYMOUS_ID_KEY, id)) return this.options.fallbackId;
+    }
+    return id;
+  }
+
+  /**
+   * Anonymous id used from now on while nothing may be persisted.
+   */
+  setFallbackId(fallbackId: string): void {
+    this.options.fallbackId = fallbackId;
+  }
+
+  getUserId(): string | undefined {
+    return this.userId || undefined;
+  }
+
+  getTraits(): UserTraits {
+    return { ...this.traits };
+  }
+
+  identify(userId: string, traits: UserTraits = {}): IdentifyResult {
+    let previousId: string | undefined;
+
+    if (this.userId && this.userId !== userId) {
+      // A different user signed in without logging out first
+      this.rotate();
+    }
+    if (this.userId !== userId) {
+      previousId = this.anonymousId;
+      this.traits = {};
+    }
+
+    this.userId = userId;
+    this.traits = { ...this.traits, ...traits };
+    this.persist();
+
+    return { userId, traits: this.getTraits(), previousId };
+  }
+
+  reset(): void {
+    this.rotate();
+  }
+
+  /**
+   * Takes over the anonymous visitor another site already knows, e.g. from
+   * a cross-domain link. User ids and traits stay with the site that
+   * collected them.
+   */
+  adopt(anonymousId: string): void {
+    this.write(ANONYMOUS_ID_KEY, anonymousId);
+  }
+
+  /**
+   * Re-persists the current identity, e.g. once consent is granted.
+   */
+  persist(): void {
+    if (this.userId) {
+      this.write(USER_KEY, JSON.stringify({ userId: this.userId, traits: this.traits }));
+    }
+  }
+
+  private rotate(): void {
+    this.userId = null;
+    this.traits = {};
+    this.remove(USER_KEY);
+    this.remove(ANONYMOUS_ID_KEY);
+  }
+
+  private read(key: string): string | null {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return null;
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  }
+
+  private write(key: string, value: string): boolean {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return false;
+    try {
+      localStorage.setItem(key, value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private remove(key: string): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Storage may be unavailable (e.g. privacy mode)
+    }
+  }
+}
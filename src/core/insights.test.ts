@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InsightEngine } from './insights';
+import type { AIInsight } from './trackers/types';
+import type { AnalyticsEvent } from './types';
+
+const MINUTE = 60000;
+const DAY = 86400000;
+
+function event(type: string, timestamp: number, data: Record<string, any> = {}): AnalyticsEvent {
+  return { type, data, timestamp };
+}
+
+function createEngine(canPersist = false) {
+  const insights: AIInsight[] = [];
+  const engine = new InsightEngine({}, { getUserId: () => 'user-1', canPersist: () => canPersist });
+  engine.onInsight((insight) => insights.push(insight));
+  return { engine, insights };
+}
+
+// One visit of `pages` page views a minute apart, starting at `start`
+function visit(engine: InsightEngine, start: number, pages: number, path = '/blog/post'): void {
+  for (let i = 0; i < pages; i++) {
+    engine.observe(event('page_view', start + i * MINUTE, { path }));
+  }
+}
+
+describe('InsightEngine', () => {
+  it('has no churn risk without enough history', () => {
+    const { engine } = createEngine();
+    visit(engine, 0, 3);
+
+    expect(engine.getChurnRisk()).toBeNull();
+  });
+
+  it('raises churn risk once engagement falls and visits drift apart', () => {
+    const { engine, insights } = createEngine();
+    let start = 0;
+    [12, 9, 6, 4, 2].forEach((pages, index) => {
+      visit(engine, start, pages);
+      start += DAY * Math.pow(2, index);
+    });
+    visit(engine, start + 30 * DAY, 1);
+
+    const churn = insights.filter((insight) => insight.insight_type === 'churn_risk');
+    expect(churn.length).toBeGreaterThan(0);
+    expect(churn[0].user_id).toBe('user-1');
+    expect(churn[0].confidence_score).toBeGreaterThan(0);
+    expect(churn[0].data_points.content_affinities[0]).toEqual({ category: 'blog', score: 1 });
+    expect(engine.getChurnRisk()).toBeGreaterThan(0.65);
+
+    // Only judged when a visit starts
+    visit(engine, start + 30 * DAY + 5 * MINUTE, 3);
+    expect(insights).toHaveLength(churn.length);
+  });
+
+  it('stays quiet for steady engagement', () => {
+    const { engine, insights } = createEngine();
+    for (let day = 0; day < 8; day++) visit(engine, day * DAY, 5);
+
+    expect(insights).toEqual([]);
+    expect(engine.getChurnRisk()).toBeLessThan(0.65);
+  });
+
+  it('flags an error spike once per visit', () => {
+    const { engine, insights } = createEngine();
+    for (let day = 0; day < 5; day++) visit(engine, day * DAY, 5);
+
+    const start = 5 * DAY;
+    visit(engine, start, 2);
+    [1, 2, 3, 4].forEach((offset) => engine.observe(event('error', start + offset * 1000)));
+
+    const anomalies = insights.filter((insight) => insight.insight_type === 'anomaly');
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].data_points.behavioral_patterns[0].pattern_type).toBe('error_spike');
+  });
+
+  it('reads the load time from the navigation entry when pageLoad was missed', () => {
+    const globals = globalThis as any;
+    const store = new Map<string, string>();
+    globals.window = { addEventListener() {}, removeEventListener() {} };
+    globals.localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    };
+    const entries = vi.spyOn(performance, 'getEntriesByType');
+
+    try {
+      // Earlier page loads, each timed by the performance tracker
+      for (let day = 0; day < 5; day++) {
+        entries.mockReturnValue([]);
+        const { engine } = createEngine(true);
+        visit(engine, day * DAY, 2);
+        engine.observe(event('pageLoad', day * DAY + 1000, { timing: { loadTime: 1000 + day * 20 } }));
+        engine.destroy();
+      }
+
+      // This page loaded before the performance tracker started
+      entries.mockReturnValue([{ startTime: 0, loadEventEnd: 6000 }]);
+      const { engine, insights } = createEngine(true);
+      visit(engine, 5 * DAY, 1);
+
+      const anomalies = insights.filter((insight) => insight.insight_type === 'anomaly');
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0].data_points.behavioral_patterns[0].pattern_type).toBe('performance_regression');
+      engine.destroy();
+    } finally {
+      entries.mockRestore();
+      delete globals.window;
+      delete globals.localStorage;
+    }
+  });
+
+  it('stores on a new visit and on pagehide, not on every event', () => {
+    const globals = globalThis as any;
+    const writes: string[] = [];
+    const listeners: Record<string, () => void> = {};
+    globals.window = {
+      addEventListener: (type: string, listener: () => void) => (listeners[type] = listener),
+      removeEventListener: (type: string) => delete listeners[type],
+    };
+    globals.localStorage = {
+      getItem: () => null,
+      setItem: (_key: string, value: string) => writes.push(value),
+    };
+
+    try {
+      const { engine } = createEngine(true);
+      visit(engine, 0, 10);
+      expect(writes).toHaveLength(1);
+
+      listeners.pagehide();
+      expect(writes).toHaveLength(2);
+      expect(JSON.parse(writes[1]).current.pageViews).toBe(10);
+
+      // Nothing new to write
+      listeners.pagehide();
+      engine.destroy();
+      expect(writes).toHaveLength(2);
+      expect(listeners.pagehide).toBeUndefined();
+    } finally {
+      delete globals.window;
+      delete globals.localStorage;
+    }
+  });
+});
@@ -0,0 +1,427 @@
+import { randomId } from './identity';
+import { normalCdf } from './stats';
+import type { AIInsight } from './trackers/types';
+import type { AnalyticsEvent } from './types';
+
+export interface InsightsConfig {
+  // Visits of history needed before trends are judged
+  minVisits?: number;
+  maxVisits?: number;
+  // Gap that separates one visit from the next
+  visitTimeout?: number;
+  // Churn risk (0-1) at which a churn_risk insight is raised
+  churnThreshold?: number;
+  // Standard scores at which errors or load times count as anomalous
+  errorSpikeScore?: number;
+  regressionScore?: number;
+}
+
+export type InsightListener = (insight: AIInsight) => void;
+
+export interface InsightEngineOptions {
+  getUserId: () => string;
+  canPersist: () => boolean;
+}
+
+/**
+ * What the engine remembers about one visit.
+ */
+interface VisitSummary {
+  start: number;
+  end: number;
+  pageViews: number;
+  interactions: number;
+  errors: number;
+  loadTimes: number[];
+  categories: Record<string, number>;
+  // Insight types already raised during this visit
+  raised: string[];
+}
+
+const STORAGE_KEY = 'thorbis_insights';
+const MODEL_VERSION = 'heuristic-1';
+const PAGE_EVENTS = ['page_view', 'pageView'];
+// Events that say nothing about the visitor's own engagement
+const PASSIVE_EVENTS = ['pageLoad', 'error', 'insight', 'sessionStart', 'sessionEnd', 'userIdle', 'experimentExposure'];
+
+export const INSIGHT_STORAGE_KEYS = [STORAGE_KEY];
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Least-squares slope over the series, relative to its mean: the share the
+ * metric changes by per visit, e.g. -0.1 for a 10% drop per visit.
+ */
+function relativeTrend(values: number[]): number {
+  const average = mean(values);
+  if (values.length < 2 || average === 0) return 0;
+
+  const xMean = (values.length - 1) / 2;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - xMean) * (value - average);
+    denominator += (index - xMean) * (index - xMean);
+  });
+  return numerator / denominator / average;
+}
+
+function trendLabel(rate: number): 'increasing' | 'decreasing' | 'stable' {
+  if (rate > 0.05) return 'increasing';
+  if (rate < -0.05) return 'decreasing';
+  return 'stable';
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+/**
+ * Turns the visitor's own history into insights without any model: churn
+ * risk from falling engagement and longer gaps between visits, and
+ * anomalies when errors or load times in the current visit break far from
+ * what this visitor normally sees. History is kept per browser.
+ */
+export class InsightEngine {
+  private readonly config: Required<InsightsConfig>;
+  private readonly options: InsightEngineOptions;
+  private readonly listeners: Set<InsightListener> = new Set();
+  private history: VisitSummary[] = [];
+  private current: VisitSummary | null = null;
+  // Set by observe(); written out on the next store rather than per event
+  private dirty: boolean = false;
+  // Whether this document's load time was counted, from pageLoad or the
+  // navigation entry
+  private loadTimed: boolean = false;
+
+  constructor(config: InsightsConfig = {}, options: InsightEngineOptions) {
+    this.config = {
+      minVisits: 4,
+      maxVisits: 30,
+      visitTimeout: 1800000, // 30 minutes
+      churnThreshold: 0.65,
+      errorSpikeScore: 3,
+      regressionScore: 3,
+      ...config,
+    };
+    this.options = options;
+    this.load();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  onInsight(listener: InsightListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Folds an event into the current visit and checks for anything new.
+   */
+  observe(event: AnalyticsEvent): void {
+    const visit = this.getVisit(event.timestamp);
+    visit.end = event.timestamp;
+
+    if (PAGE_EVENTS.includes(event.type)) {
+      visit.pageViews++;
+      const category = this.categoryOf(event);
+      if (category) visit.categories[category] = (visit.categories[category] || 0) + 1;
+      this.readNavigationTiming(visit);
+    } else if (event.type === 'error') {
+      visit.errors++;
+      this.checkErrorSpike(visit);
+    } else if (event.type === 'pageLoad') {
+      const loadTime = event.data?.timing?.lcp || event.data?.timing?.loadTime;
+      if (typeof loadTime === 'number' && loadTime > 0) {
+        this.addLoadTime(visit, loadTime);
+      }
+    } else if (!PASSIVE_EVENTS.includes(event.type)) {
+      visit.interactions++;
+    }
+
+    this.dirty = true;
+  }
+
+  /**
+   * Current churn risk in [0, 1], or null without enough history.
+   */
+  getChurnRisk(): number | null {
+    return this.assessChurn()?.risk ?? null;
+  }
+
+  destroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+    if (this.dirty) this.store();
+    this.listeners.clear();
+  }
+
+  private getVisit(timestamp: number): VisitSummary {
+    if (this.current && timestamp - this.current.end < this.config.visitTimeout) {
+      return this.current;
+    }
+
+    if (this.current) {
+      this.history = [...this.history, this.current].slice(-this.config.maxVisits);
+    }
+    this.current = {
+      start: timestamp,
+      end: timestamp,
+      pageViews: 0,
+      interactions: 0,
+      errors: 0,
+      loadTimes: [],
+      categories: {},
+      raised: [],
+    };
+
+    // A new visit is the moment to judge how the previous ones trended
+    this.checkChurn(this.current);
+    this.store();
+    return this.current;
+  }
+
+  // Top-level path segment, e.g. "blog" for /blog/post-1
+  private categoryOf(event: AnalyticsEvent): string | null {
+    const path = event.data?.path || event.data?.url;
+    if (typeof path !== 'string') return null;
+    try {
+      return new URL(path, 'http://localhost').pathname.split('/')[1] || 'home';
+    } catch {
+      return null;
+    }
+  }
+
+  private assessChurn() {
+    const visits = this.history;
+    if (visits.length < this.config.minVisits) return null;
+
+    const durations = visits.map((visit) => visit.end - visit.start);
+    const pages = visits.map((visit) => visit.pageViews);
+    const interactions = visits.map((visit) => visit.interactions);
+    const gaps = visits.slice(1).map((visit, index) => visit.start - visits[index].start);
+    const currentGap = (this.current?.start ?? Date.now()) - visits[visits.length - 1].start;
+    const typicalGap = median(gaps) || currentGap;
+
+    const trends = {
+      visit_duration: relativeTrend(durations),
+      pages_per_visit: relativeTrend(pages),
+      interactions_per_visit: relativeTrend(interactions),
+    };
+    const gapGrowth = typicalGap > 0 ? Math.log(Math.max(currentGap, 1) / typicalGap) : 0;
+
+    // Falling engagement and lengthening gaps both push risk up
+    const score =
+      -2 * trends.visit_duration -
+      2 * trends.pages_per_visit -
+      1.5 * trends.interactions_per_visit +
+      0.8 * gapGrowth -
+      1;
+    const signals = [...Object.values(trends).map((rate) => rate < -0.05), gapGrowth > 0.5];
+
+    return {
+      risk: sigmoid(score),
+      trends,
+      gapGrowth,
+      agreement: signals.filter(Boolean).length / signals.length,
+    };
+  }
+
+  private checkChurn(visit: VisitSummary): void {
+    const churn = this.assessChurn();
+    if (!churn || churn.risk < this.config.churnThreshold) return;
+
+    const history = Math.min(1, this.history.length / 10);
+    this.raise(visit, 'churn_risk', {
+      confidence: churn.risk * (0.5 + 0.5 * churn.agreement) * (0.5 + 0.5 * history),
+      description: `Engagement has been falling over the last ${this.history.length} visits (churn risk ${Math.round(churn.risk * 100)}%).`,
+      suggestedAction: 'Re-engage this user, e.g. with a personalised message or an offer on their next visit.',
+      features: ['visit_duration', 'pages_per_visit', 'interactions_per_visit', 'visit_gap'],
+      patterns: [{ pattern_type: 'visit_gap_growth', frequency: this.history.length, significance: churn.gapGrowth }],
+      trends: Object.entries(churn.trends).map(([metric, rate]) => ({
+        metric,
+        trend: trendLabel(rate),
+        change_rate: rate,
+      })),
+    });
+  }
+
+  private checkErrorSpike(visit: VisitSummary): void {
+    if (this.history.length < this.config.minVisits || visit.errors < 3) return;
+
+    // Errors per page view; Poisson noise around the visitor's usual rate
+    const usualRate = mean(this.history.map((past) => past.errors / Math.max(1, past.pageViews)));
+    const expected = usualRate * Math.max(1, visit.pageViews);
+    const score = (visit.errors - expected) / Math.sqrt(Math.max(expected, 0.5));
+    if (score < this.config.errorSpikeScore) return;
+
+    this.raise(visit, 'anomaly', {
+      key: 'anomaly:errors',
+      confidence: normalCdf(score - this.config.errorSpikeScore + 1.645),
+      description: `${visit.errors} errors this visit against about ${expected.toFixed(1)} expected from this user's history.`,
+      suggestedAction: 'Check recent releases and the error log for the pages this user visited.',
+      features: ['errors_per_page_view'],
+      patterns: [{ pattern_type: 'error_spike', frequency: visit.errors, significance: score }],
+      trends: [{ metric: 'errors', trend: 'increasing', change_rate: expected ? visit.errors / expected - 1 : visit.errors }],
+    });
+  }
+
+  private addLoadTime(visit: VisitSummary, loadTime: number): void {
+    this.loadTimed = true;
+    this.dirty = true;
+    visit.loadTimes.push(loadTime);
+    this.checkRegression(visit);
+  }
+
+  /**
+   * Counts the load time from the navigation entry when no pageLoad event
+   * did, e.g. because the performance tracker started after the page had
+   * loaded and so never saw the load event.
+   */
+  private readNavigationTiming(visit: VisitSummary): void {
+    if (this.loadTimed || typeof performance === 'undefined' || !performance.getEntriesByType) return;
+
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    // Zero until the load event has finished; pageLoad may still follow
+    if (!navigation || navigation.loadEventEnd <= 0) return;
+
+    this.addLoadTime(visit, navigation.loadEventEnd - navigation.startTime);
+  }
+
+  private checkRegression(visit: VisitSummary): void {
+    const past = this.history.flatMap((previous) => previous.loadTimes);
+    if (past.length < this.config.minVisits) return;
+
+    // Median and MAD, so a few slow loads in the history do not mask a regression
+    const usual = median(past);
+    const spread = 1.4826 * median(past.map((value) => Math.abs(value - usual))) || usual * 0.1;
+    const current = median(visit.loadTimes);
+    const score = (current - usual) / spread;
+    if (score < this.config.regressionScore || current < usual * 1.5) return;
+
+    this.raise(visit, 'anomaly', {
+      key: 'anomaly:performance',
+      confidence: normalCdf(score - this.config.regressionScore + 1.645),
+      description: `Pages are loading in ${Math.round(current)}ms against a usual ${Math.round(usual)}ms for this user.`,
+      suggestedAction: 'Look for a performance regression in the latest release or on this user\'s network.',
+      features: ['load_time'],
+      patterns: [{ pattern_type: 'performance_regression', frequency: visit.loadTimes.length, significance: score }],
+      trends: [{ metric: 'load_time', trend: 'increasing', change_rate: current / usual - 1 }],
+    });
+  }
+
+  private raise(
+    visit: VisitSummary,
+    type: AIInsight['insight_type'],
+    details: {
+      key?: string;
+      confidence: number;
+      description: string;
+      suggestedAction: string;
+      features: string[];
+      patterns: AIInsight['data_points']['behavioral_patterns'];
+      trends: AIInsight['data_points']['engagement_trends'];
+    }
+  ): void {
+    // One insight of each kind per visit
+    const key = details.key || type;
+    if (visit.raised.includes(key)) return;
+    visit.raised.push(key);
+
+    const now = new Date().toISOString();
+    const insight: AIInsight = {
+      insight_id: randomId(),
+      user_id: this.options.getUserId(),
+      timestamp: now,
+      insight_type: type,
+      confidence_score: Math.round(Math.min(1, Math.max(0, details.confidence)) * 100) / 100,
+      description: details.description,
+      suggested_action: details.suggestedAction,
+      data_points: {
+        behavioral_patterns: details.patterns,
+        content_affinities: this.contentAffinities(),
+        engagement_trends: details.trends,
+      },
+      metadata: {
+        model_version: MODEL_VERSION,
+        features_used: details.features,
+        generation_time: now,
+      },
+    };
+
+    // Keeps the insight from being raised again after a reload
+    this.store();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(insight);
+      } catch (error) {
+        console.warn('Insight listener failed:', error);
+      }
+    });
+  }
+
+  // Share of page views per section across the stored visits
+  private contentAffinities(): AIInsight['data_points']['content_affinities'] {
+    const totals: Record<string, number> = {};
+    [...this.history, ...(this.current ? [this.current] : [])].forEach((visit) => {
+      Object.entries(visit.categories).forEach(([category, count]) => {
+        totals[category] = (totals[category] || 0) + count;
+      });
+    });
+
+    const sum = Object.values(totals).reduce((total, count) => total + count, 0);
+    return Object.entries(totals)
+      .map(([category, count]) => ({ category, score: sum ? count / sum : 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+  }
+
+  /**
+   * Re-persists the history, e.g. once consent is granted.
+   */
+  persist(): void {
+    this.store();
+  }
+
+  private handlePageHide = (): void => {
+    // The load may have finished only after this page's page view; the
+    // current visit counts only if this document added to it
+    if (this.current && typeof performance !== 'undefined' && this.current.end >= performance.timeOrigin) {
+      this.readNavigationTiming(this.current);
+    }
+    if (this.dirty) this.store();
+  };
+
+  private load(): void {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+      this.history = stored?.history || [];
+      this.current = stored?.current || null;
+    } catch {
+      // No storage (or nothing stored yet): start without history
+    }
+  }
+
+  private store(): void {
+    if (typeof window === 'undefined' || !this.options.canPersist()) return;
+    this.dirty = false;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ history: this.history, current: this.current }));
+    } catch {
+      // Storage may be unavailable (e.g. privacy mode)
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Parses every JSON-LD block on the page. Blocks that fail to parse are
+ * skipped.
+ */
+export function readJsonLd(root: ParentNode = document): any[] {
+  const data: any[] = [];
+
+  root.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      data.push(JSON.parse(script.textContent || ''));
+    } catch (error) {
+      console.error('Error parsing structured data:', error);
+    }
+  });
+  return data;
+}
+
+/**
+ * Flattens JSON-LD documents (arrays and `@graph` containers) and returns
+ * the nodes of the given schema.org type.
+ */
+export function findJsonLdNodes(documents: any[], type: string): any[] {
+  const nodes: any[] = [];
+
+  const visit = (node: any): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    if (types.includes(type)) nodes.push(node);
+    if (node['@graph']) visit(node['@graph']);
+  };
+
+  visit(documents);
+  return nodes;
+}
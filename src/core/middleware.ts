@@ -0,0 +1,112 @@
+import type { AnalyticsEvent } from './types';
+
+export interface MiddlewareContext {
+  sessionId: string;
+  anonymousId: string;
+  userId?: string;
+}
+
+/**
+ * Receives each event before it is queued. Return a (possibly new) event to
+ * rewrite it, `null` to drop it, or nothing to pass it through unchanged.
+ */
+export type EventMiddleware = (
+  event: AnalyticsEvent,
+  context: MiddlewareContext
+) => AnalyticsEvent | null | void | Promise<AnalyticsEvent | null | void>;
+
+export interface MiddlewareDefinition {
+  name: string;
+  handler: EventMiddleware;
+  timeout?: number; // ms; a middleware that overruns is skipped
+}
+
+const DEFAULT_TIMEOUT = 1000;
+const TIMED_OUT = Symbol('timed-out');
+
+/**
+ * Middleware that merges static or computed values into `event.context`,
+ * e.g. app version, release, tenant or experiment variants.
+ */
+export function enrich(
+  values: Record<string, any> | (() => Record<string, any> | Promise<Record<string, any>>)
+): EventMiddleware {
+  return async (event) => ({
+    ...event,
+    context: {
+      ...event.context,
+      ...(typeof values === 'function' ? await values() : values),
+    },
+  });
+}
+
+export class MiddlewarePipeline {
+  private middlewares: MiddlewareDefinition[] = [];
+  private readonly debug: boolean;
+
+  constructor(middlewares: Array<EventMiddleware | MiddlewareDefinition> = [], debug = false) {
+    this.debug = debug;
+    middlewares.forEach((middleware) => this.use(middleware));
+  }
+
+  get size(): number {
+    return this.middlewares.length;
+  }
+
+  use(middleware: EventMiddleware | MiddlewareDefinition): () => void {
+    const definition: MiddlewareDefinition =
+      typeof middleware === 'function'
+        ? { name: middleware.name || `middleware_${this.middlewares.length}`, handler: middleware }
+        : middleware;
+
+    this.middlewares.push(definition);
+    return () => {
+      this.middlewares = this.middlewares.filter((m) => m !== definition);
+    };
+  }
+
+  /**
+   * Runs the event through every middleware in registration order. Resolves
+   * to the final event, or null if any middleware dropped it. A middleware
+   * that throws or times out is skipped and the event continues unchanged.
+   */
+  async run(event: AnalyticsEvent, context: MiddlewareContext): Promise<AnalyticsEvent | null> {
+    let current = event;
+
+    for (const { name, handler, timeout } of this.middlewares) {
+      try {
+        const result = await this.withTimeout(
+          Promise.resolve(handler(current, context)),
+          timeout ?? DEFAULT_TIMEOUT
+        );
+
+        if (result === TIMED_OUT) {
+          console.warn(`Middleware "${name}" timed out, skipping`);
+          continue;
+        }
+        if (result === null) {
+          if (this.debug) {
+            console.log(`🚫 Middleware "${name}" dropped ${current.type}`);
+          }
+          return null;
+        }
+        if (result) {
+          current = result;
+        }
+      } catch (error) {
+        console.warn(`Middleware "${name}" failed, skipping:`, error);
+      }
+    }
+
+    return current;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), ms);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { Outbox } from './outbox';
+
+const globals = globalThis as any;
+const DAY = 86400000;
+const open: Outbox[] = [];
+
+function createOutbox(options: ConstructorParameters<typeof Outbox>[0] = {}): Outbox {
+  const outbox = new Outbox(options);
+  open.push(outbox);
+  return outbox;
+}
+
+describe('Outbox', () => {
+  beforeEach(() => {
+    // A fresh database per test
+    globals.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    open.splice(0).forEach((outbox) => outbox.close());
+    delete globals.indexedDB;
+    vi.useRealTimers();
+  });
+
+  it('returns entries oldest first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const outbox = createOutbox();
+
+    vi.setSystemTime(2000);
+    await outbox.add('events', { n: 2 });
+    vi.setSystemTime(1000);
+    await outbox.add('sessions', { n: 1 });
+
+    const entries = await outbox.getAll();
+    expect(entries.map((entry) => entry.payload.n)).toEqual([1, 2]);
+    expect(entries[0]).toMatchObject({ kind: 'sessions', size: 7 });
+  });
+
+  it('drops entries older than maxAge', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    const outbox = createOutbox({ maxAge: DAY });
+    await outbox.add('events', { n: 1 });
+
+    vi.setSystemTime(DAY / 2);
+    await outbox.add('events', { n: 2 });
+
+    vi.setSystemTime(DAY + 1);
+    await outbox.add('events', { n: 3 });
+
+    expect((await outbox.getAll()).map((entry) => entry.payload.n)).toEqual([2, 3]);
+  });
+
+  it('prunes expired entries when reopened', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    const first = createOutbox({ maxAge: DAY });
+    await first.add('events', { n: 1 });
+    first.close();
+
+    vi.setSystemTime(2 * DAY);
+    expect(await createOutbox({ maxAge: DAY }).getAll()).toEqual([]);
+  });
+
+  it('evicts the oldest entries to stay within maxBytes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Each payload is 19 bytes of JSON
+    const outbox = createOutbox({ maxBytes: 40 });
+    for (let n = 1; n <= 4; n++) {
+      vi.setSystemTime(n * 1000);
+      await outbox.add('events', { n, pad: 'xxx' });
+    }
+
+    const entries = await outbox.getAll();
+    expect(entries.map((entry) => entry.payload.n)).toEqual([3, 4]);
+    expect(entries.reduce((sum, entry) => sum + entry.size, 0)).toBeLessThanOrEqual(40);
+  });
+
+  it('deletes and clears entries', async () => {
+    const outbox = createOutbox();
+    await outbox.add('events', { n: 1 });
+    await outbox.add('events', { n: 2 });
+
+    const [first] = await outbox.getAll();
+    await outbox.delete(first.id);
+    expect(await outbox.getAll()).toHaveLength(1);
+
+    await outbox.clear();
+    expect(await outbox.getAll()).toEqual([]);
+  });
+
+  it('is unavailable without IndexedDB', async () => {
+    delete globals.indexedDB;
+    const outbox = createOutbox();
+
+    expect(await outbox.open()).toBe(false);
+    expect(await outbox.getAll()).toEqual([]);
+    await expect(outbox.add('events', {})).rejects.toThrow('Event outbox is unavailable');
+  });
+});
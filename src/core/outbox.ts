@@ -0,0 +1,141 @@
+import { randomId } from './identity';
+import type { EventKind } from './transport';
+
+export interface OutboxEntry {
+  id: string;
+  kind: EventKind;
+  payload: any;
+  createdAt: number;
+  size: number;
+}
+
+interface OutboxOptions {
+  maxBytes?: number;
+  maxAge?: number;
+  debug?: boolean;
+}
+
+const DB_NAME = 'thorbis';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed store for payloads that could not be delivered. Entries
+ * survive reloads and offline periods until they are replayed, and the store
+ * is kept within a byte budget and a maximum age by evicting oldest first.
+ */
+export class Outbox {
+  private db: IDBDatabase | null = null;
+  private opening: Promise<boolean> | null = null;
+  private readonly maxBytes: number;
+  private readonly maxAge: number;
+  private readonly debug: boolean;
+
+  constructor(options: OutboxOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 5 * 1024 * 1024; // 5 MB
+    this.maxAge = options.maxAge ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.debug = options.debug ?? false;
+  }
+
+  open(): Promise<boolean> {
+    if (!this.opening) {
+      this.opening = this.connect();
+    }
+    return this.opening;
+  }
+
+  async add(kind: EventKind, payload: any): Promise<void> {
+    if (!(await this.open())) {
+      throw new Error('Event outbox is unavailable');
+    }
+
+    const entry: OutboxEntry = {
+      id: randomId(),
+      kind,
+      payload,
+      createdAt: Date.now(),
+      size: JSON.stringify(payload).length,
+    };
+
+    await promisify(this.store('readwrite').put(entry));
+    await this.prune();
+
+    if (this.debug) {
+      console.log(`💾 Stored ${kind} payload in outbox (${entry.size} bytes)`);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.open())) return;
+    await promisify(this.store('readwrite').delete(id));
+  }
+
+  /**
+   * Returns stored entries oldest first, so replay preserves send order.
+   */
+  async getAll(): Promise<OutboxEntry[]> {
+    if (!(await this.open())) return [];
+    return this.readAll();
+  }
+
+  async clear(): Promise<void> {
+    if (!(await this.open())) return;
+    await promisify(this.store('readwrite').clear());
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.opening = null;
+  }
+
+  private async connect(): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') return false;
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+
+      this.db = await promisify(request);
+      await this.prune();
+      return true;
+    } catch (error) {
+      console.warn('Failed to open event outbox:', error);
+      return false;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const entries = await this.readAll();
+    const cutoff = Date.now() - this.maxAge;
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+      if (entry.createdAt >= cutoff && totalBytes <= this.maxBytes) break;
+
+      await promisify(this.store('readwrite').delete(entry.id));
+      totalBytes -= entry.size;
+    }
+  }
+
+  private readAll(): Promise<OutboxEntry[]> {
+    return promisify<OutboxEntry[]>(this.store('readonly').index('createdAt').getAll());
+  }
+
+  private store(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db!.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventQueue } from './queue';
+import type { AnalyticsEvent, EventBatch } from './types';
+
+function event(type = 'click', id?: string): AnalyticsEvent {
+  return { id, type, data: {}, timestamp: Date.now() };
+}
+
+function createQueue(send: (batch: EventBatch) => Promise<void> = async () => {}) {
+  const sent: EventBatch[] = [];
+  const queue = new EventQueue({
+    sessionId: 's1',
+    maxBatchSize: 3,
+    flushInterval: 5000,
+    send: (batch) => {
+      sent.push(batch);
+      return send(batch);
+    },
+  });
+  return { queue, sent };
+}
+
+describe('EventQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('flushes after the interval when the batch is not full', async () => {
+    const { queue, sent } = createQueue();
+    queue.enqueue(event());
+    queue.enqueue(event());
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(sent).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].events).toHaveLength(2);
+    expect(queue.size).toBe(0);
+  });
+
+  it('flushes as soon as a batch is full', async () => {
+    const { queue, sent } = createQueue();
+    [1, 2, 3].forEach(() => queue.enqueue(event()));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ sessionId: 's1', sequence: 0 });
+  });
+
+  it('keeps event ids and fills in missing ones', () => {
+    const { queue } = createQueue();
+    queue.enqueue(event('click', 'kept'));
+    queue.enqueue(event('click'));
+
+    const [batch] = queue.drain();
+    expect(batch.events[0].id).toBe('kept');
+    expect(batch.events[1].id).toEqual(expect.any(String));
+  });
+
+  it('sends batches one after another, in sequence order', async () => {
+    const log: string[] = [];
+    const { queue } = createQueue(async (batch) => {
+      log.push(`start ${batch.sequence}`);
+      await new Promise((resolve) => setTimeout(resolve, batch.sequence === 0 ? 100 : 10));
+      log.push(`end ${batch.sequence}`);
+    });
+
+    [1, 2, 3, 4].forEach(() => queue.enqueue(event()));
+    const flushed = queue.flush();
+    await vi.advanceTimersByTimeAsync(200);
+    await flushed;
+
+    expect(log).toEqual(['start 0', 'end 0', 'start 1', 'end 1']);
+  });
+
+  it('carries on after a failed send', async () => {
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      const { queue, sent } = createQueue(async (batch) => {
+        if (batch.sequence === 0) throw new Error('offline');
+      });
+
+      [1, 2, 3, 4].forEach(() => queue.enqueue(event()));
+      await queue.flush();
+
+      expect(sent.map((batch) => batch.sequence)).toEqual([0, 1]);
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  it('drains synchronously and cancels the pending flush', async () => {
+    const { queue, sent } = createQueue();
+    [1, 2, 3, 4, 5].forEach(() => queue.enqueue(event()));
+
+    const batches = queue.drain();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(batches.map((batch) => batch.events.length)).toEqual([2]);
+    // The first three went out when the batch filled up
+    expect(sent.map((batch) => batch.sequence)).toEqual([0]);
+    expect(batches[0].sequence).toBe(1);
+  });
+
+  it('tags later batches with a new session id', () => {
+    const { queue } = createQueue();
+    queue.enqueue(event());
+    queue.setSessionId('s2');
+
+    expect(queue.drain()[0].sessionId).toBe('s2');
+  });
+
+  it('drops buffered events on clear', async () => {
+    const { queue, sent } = createQueue();
+    queue.enqueue(event());
+    queue.clear();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(queue.size).toBe(0);
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { randomId } from './identity';
+import type { AnalyticsEvent, EventBatch } from './types';
+
+interface EventQueueOptions {
+  sessionId: string;
+  maxBatchSize: number;
+  flushInterval: number;
+  send: (batch: EventBatch) => Promise<void>;
+  debug?: boolean;
+}
+
+export class EventQueue {
+  private readonly options: EventQueueOptions;
+  private events: AnalyticsEvent[] = [];
+  private flushTimeout: NodeJS.Timeout | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  private sequence: number = 0;
+
+  constructor(options: EventQueueOptions) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Batches flushed from now on carry this session id, e.g. after a
+   * cross-domain session was adopted.
+   */
+  setSessionId(sessionId: string): void {
+    this.options.sessionId = sessionId;
+  }
+
+  enqueue(event: AnalyticsEvent): void {
+    this.events.push({
+      ...event,
+      id: event.id || randomId(),
+    });
+
+    if (this.events.length >= this.options.maxBatchSize) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Sends everything currently buffered. Batches are chained onto the
+   * previous send so the backend always receives them in sequence order.
+   */
+  flush(): Promise<void> {
+    this.clearFlushTimeout();
+
+    for (const batch of this.drain()) {
+      this.pending = this.pending.then(() =>
+        this.options.send(batch).catch((error) => {
+          console.warn(`Failed to send batch ${batch.sequence}:`, error);
+        })
+      );
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Synchronously empties the buffer into batches, for callers that must
+   * hand them off before the page goes away (e.g. via sendBeacon).
+   */
+  drain(): EventBatch[] {
+    this.clearFlushTimeout();
+
+    const batches: EventBatch[] = [];
+    while (this.events.length > 0) {
+      batches.push(this.createBatch(this.events.splice(0, this.options.maxBatchSize)));
+    }
+
+    if (this.options.debug && batches.length > 0) {
+      console.log(`📦 Drained ${batches.length} batch(es) from event queue`);
+    }
+
+    return batches;
+  }
+
+  clear(): void {
+    this.clearFlushTimeout();
+    this.events = [];
+  }
+
+  private createBatch(events: AnalyticsEvent[]): EventBatch {
+    return {
+      batchId: randomId(),
+      sessionId: this.options.sessionId,
+      sequence: this.sequence++,
+      sentAt: Date.now(),
+      events,
+    };
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) return;
+
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      this.flush();
+    }, this.options.flushInterval);
+  }
+
+  private clearFlushTimeout(): void {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Redactor, explainRedaction } from './redaction';
+import { randomId } from './identity';
+
+describe('Redactor', () => {
+  const redactor = new Redactor();
+
+  it('replaces emails, phone numbers, cards and JWTs inside strings', () => {
+    const result = redactor.redact({
+      message:
+        'Mail jane@example.com or call +1 555-123-4567, card 4111 1111 1111 1111, token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig',
+    });
+
+    expect(result.message).toBe('Mail [EMAIL] or call [PHONE], card [CARD], token [JWT]');
+  });
+
+  it('replaces values under denied keys', () => {
+    expect(redactor.redact({ password: 'hunter2', 'api-key': 'abc', name: 'x' })).toEqual({
+      password: '[REDACTED]',
+      'api-key': '[REDACTED]',
+      name: 'x',
+    });
+  });
+
+  it('strips sensitive query parameters from URLs', () => {
+    expect(redactor.redact({ url: 'https://a.test/reset?token=1&page=2#top' }).url).toBe(
+      'https://a.test/reset?page=2#top'
+    );
+    expect(redactor.redact({ path: '/reset?code=abc' }).path).toBe('/reset');
+  });
+
+  it('leaves known id fields untouched', () => {
+    const payload = { id: 'a3aa3602-3916-4210-9455-b7260269ba10', batchId: '555-123-4567' };
+    expect(redactor.redact(payload)).toEqual(payload);
+  });
+
+  it('does not match phone numbers inside UUIDs', () => {
+    const uuids = Array.from({ length: 5000 }, () => randomId());
+    const { redactions } = redactor.explain({ refs: uuids });
+
+    expect(redactions).toEqual([]);
+    expect(redactor.redact({ ref: 'a3aa3602-3916-4210-9455-b7260269ba10' }).ref).toBe(
+      'a3aa3602-3916-4210-9455-b7260269ba10'
+    );
+  });
+
+  it('copies shared references instead of marking them circular', () => {
+    const shared = { plan: 'pro' };
+    expect(redactor.redact({ x: shared, y: shared })).toEqual({ x: shared, y: shared });
+  });
+
+  it('marks real cycles', () => {
+    const node: Record<string, any> = { name: 'root' };
+    node.self = node;
+    expect(redactor.redact(node)).toEqual({ name: 'root', self: '[Circular]' });
+  });
+
+  it('gives the same result for global key and param patterns on every call', () => {
+    const custom = new Redactor({ keys: [/^internal/g], queryParams: [/^utm_/g] });
+    const results = Array.from({ length: 4 }, () =>
+      custom.redact({ internalNote: 'x', url: 'https://a.test/?utm_source=ad' })
+    );
+
+    results.forEach((result) => {
+      expect(result).toEqual({ internalNote: '[REDACTED]', url: 'https://a.test/' });
+    });
+  });
+
+  it('does not modify the original payload', () => {
+    const payload = { email: 'jane@example.com' };
+    redactor.redact(payload);
+    expect(payload.email).toBe('jane@example.com');
+  });
+});
+
+describe('explainRedaction', () => {
+  it('lists every replacement with its path and rule', () => {
+    const { redactions } = explainRedaction({ user: { email: 'a@b.co' }, url: '/x?token=1' });
+
+    expect(redactions).toEqual([
+      { path: 'user.email', rule: 'email', original: 'a@b.co' },
+      { path: 'url', rule: 'queryParam', original: 'token=1' },
+    ]);
+  });
+
+  it('only runs the requested built-ins', () => {
+    const { result } = explainRedaction({ text: 'a@b.co 555-123-4567' }, { builtIns: ['email'] });
+    expect(result.text).toBe('[EMAIL] 555-123-4567');
+  });
+});
@@ -0,0 +1,311 @@
+export type BuiltInRedaction = 'email' | 'phone' | 'card' | 'jwt';
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp | string;
+  replacement?: string;
+  // Extra check on each match, e.g. a checksum, to cut false positives
+  validate?: (match: string, input: string, offset: number) => boolean;
+}
+
+export interface RedactionConfig {
+  // Built-in value rules to run; all of them by default
+  builtIns?: BuiltInRedaction[];
+  rules?: RedactionRule[];
+  // Property names whose values are replaced outright, added to the defaults
+  keys?: Array<string | RegExp>;
+  // Query parameters removed from URLs, added to the defaults
+  queryParams?: Array<string | RegExp>;
+  replacement?: string;
+}
+
+export interface RedactionMatch {
+  path: string;
+  rule: string;
+  original: string;
+}
+
+export interface RedactionReport<T> {
+  result: T;
+  redactions: RedactionMatch[];
+}
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+
+// Compared after lowercasing and dropping '-' and '_'
+const DEFAULT_KEYS = [
+  'password',
+  'passwd',
+  'pwd',
+  'secret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'authorization',
+  'apikey',
+  'cookie',
+  'ssn',
+  'cardnumber',
+  'creditcard',
+  'cvv',
+  'cvc',
+];
+
+// Generated ids are left alone: they carry no personal data, and a digit
+// run inside a UUID can look like a phone number
+const ID_KEYS = ['id', 'batchId', 'sessionId', 'anonymousId', 'chunkId', 'insight_id', 'insightId'];
+
+const DEFAULT_QUERY_PARAMS = [
+  'token',
+  'access_token',
+  'id_token',
+  'refresh_token',
+  'code',
+  'password',
+  'api_key',
+  'apikey',
+  'key',
+  'secret',
+  'signature',
+  'sig',
+  'auth',
+];
+
+// Rejects matches that are part of a longer hex or hyphenated token
+function isStandalone(match: string, input: string, offset: number): boolean {
+  const before = input[offset - 1] || '';
+  const after = input[offset + match.length] || '';
+  return !/[\w-]/.test(before) && !/[\w-]/.test(after);
+}
+
+// Luhn checksum, so order ids and timestamps are not mistaken for cards
+function isCardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Ordered so tokens and card numbers are replaced before the looser phone rule
+const BUILT_IN_RULES: Record<BuiltInRedaction, RedactionRule> = {
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g,
+    replacement: '[JWT]',
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+    replacement: '[EMAIL]',
+  },
+  card: {
+    name: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replacement: '[CARD]',
+    validate: (match, input, offset) => isStandalone(match, input, offset) && isCardNumber(match),
+  },
+  phone: {
+    // Dots are not accepted as separators so IP addresses and versions survive
+    name: 'phone',
+    pattern: /(?:\+\d{1,3}[ -]?)?(?:\(\d{2,4}\) ?|\b\d{2,4}[ -])\d{3,4}[ -]\d{3,4}\b|\+\d{8,15}\b/g,
+    replacement: '[PHONE]',
+    validate: isStandalone,
+  },
+};
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>]+/g;
+
+/**
+ * Scrubs personal data from payloads before they leave the browser: values
+ * under denylisted keys, emails, phone numbers, card numbers and JWTs inside
+ * strings, and sensitive query parameters in URLs.
+ */
+export class Redactor {
+  private readonly rules: RedactionRule[];
+  private readonly keys: Array<string | RegExp>;
+  private readonly queryParams: Array<string | RegExp>;
+  private readonly replacement: string;
+
+  constructor(config: RedactionConfig = {}) {
+    const builtIns = config.builtIns ?? (Object.keys(BUILT_IN_RULES) as BuiltInRedaction[]);
+
+    this.rules = [
+      ...(Object.keys(BUILT_IN_RULES) as BuiltInRedaction[])
+        .filter((name) => builtIns.includes(name))
+        .map((name) => BUILT_IN_RULES[name]),
+      ...(config.rules || []),
+    ];
+    this.keys = [...DEFAULT_KEYS, ...(config.keys || [])].map(this.withoutState);
+    this.queryParams = [...DEFAULT_QUERY_PARAMS, ...(config.queryParams || [])].map(this.withoutState);
+    this.replacement = config.replacement || DEFAULT_REPLACEMENT;
+  }
+
+  /**
+   * Returns a redacted copy of the payload; the original is left untouched.
+   */
+  redact<T>(payload: T): T {
+    return this.walk(payload, '', new Set(), () => {}) as T;
+  }
+
+  /**
+   * Like redact(), but also lists every replacement with its path and rule.
+   */
+  explain<T>(payload: T): RedactionReport<T> {
+    const redactions: RedactionMatch[] = [];
+    const result = this.walk(payload, '', new Set(), (match) => redactions.push(match)) as T;
+    return { result, redactions };
+  }
+
+  // `ancestors` holds only the objects above the current one, so a value
+  // shared by two siblings is copied twice rather than flagged as a cycle
+  private walk(
+    value: any,
+    path: string,
+    ancestors: Set<object>,
+    report: (match: RedactionMatch) => void
+  ): any {
+    if (typeof value === 'string') {
+      return this.redactString(value, path, report);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    if (!Array.isArray(value) && !this.isPlainObject(value)) {
+      return value;
+    }
+
+    ancestors.add(value);
+    let result: any;
+    if (Array.isArray(value)) {
+      result = value.map((item, index) => this.walk(item, `${path}[${index}]`, ancestors, report));
+    } else {
+      result = {};
+      Object.keys(value).forEach((key) => {
+        const childPath = path ? `${path}.${key}` : key;
+
+        if (ID_KEYS.includes(key) && typeof value[key] === 'string') {
+          result[key] = value[key];
+        } else if (this.isDeniedKey(key) && value[key] != null && value[key] !== '') {
+          report({ path: childPath, rule: 'key', original: String(value[key]) });
+          result[key] = this.replacement;
+        } else {
+          result[key] = this.walk(value[key], childPath, ancestors, report);
+        }
+      });
+    }
+    ancestors.delete(value);
+    return result;
+  }
+
+  private redactString(
+    value: string,
+    path: string,
+    report: (match: RedactionMatch) => void
+  ): string {
+    // Relative paths such as '/reset?token=…' only count when they are the whole value
+    let result = value.startsWith('/')
+      ? this.stripQueryParams(value, path, report)
+      : value.replace(URL_PATTERN, (url) => this.stripQueryParams(url, path, report));
+
+    this.rules.forEach((rule) => {
+      result = result.replace(this.toRegExp(rule.pattern), (match: string, ...args: any[]) => {
+        // replace() passes the groups, offset, whole string and, with named
+        // groups, a groups object
+        const tail = typeof args[args.length - 1] === 'object' ? args.slice(0, -1) : args;
+        const offset = tail[tail.length - 2] as number;
+        const input = tail[tail.length - 1] as string;
+        if (rule.validate && !rule.validate(match, input, offset)) return match;
+        report({ path, rule: rule.name, original: match });
+        return rule.replacement ?? this.replacement;
+      });
+    });
+
+    return result;
+  }
+
+  private stripQueryParams(
+    url: string,
+    path: string,
+    report: (match: RedactionMatch) => void
+  ): string {
+    const hashIndex = url.indexOf('#');
+    const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+    const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+    const queryIndex = base.indexOf('?');
+    if (queryIndex === -1) return url;
+
+    const params = base
+      .slice(queryIndex + 1)
+      .split('&')
+      .filter((param) => {
+        if (!this.isDeniedParam(param.split('=')[0])) return true;
+        report({ path, rule: 'queryParam', original: param });
+        return false;
+      });
+
+    const query = params.length ? `?${params.join('&')}` : '';
+    return `${base.slice(0, queryIndex)}${query}${hash}`;
+  }
+
+  private isDeniedKey(key: string): boolean {
+    const normalized = key.toLowerCase().replace(/[-_]/g, '');
+    return this.keys.some((denied) =>
+      typeof denied === 'string' ? denied.toLowerCase().replace(/[-_]/g, '') === normalized : denied.test(key)
+    );
+  }
+
+  private isDeniedParam(name: string): boolean {
+    let decoded = name;
+    try {
+      decoded = decodeURIComponent(name);
+    } catch {
+      // Keep the raw name when it is not valid percent-encoding
+    }
+
+    return this.queryParams.some((denied) =>
+      typeof denied === 'string' ? denied.toLowerCase() === decoded.toLowerCase() : denied.test(decoded)
+    );
+  }
+
+  // test() on a /g or /y pattern resumes from lastIndex, alternating results
+  private withoutState(pattern: string | RegExp): string | RegExp {
+    return typeof pattern === 'string' ? pattern : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+  }
+
+  private toRegExp(pattern: RegExp | string): RegExp {
+    if (typeof pattern === 'string') return new RegExp(pattern, 'g');
+    // replace() only hits every match with the global flag
+    return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+  }
+
+  private isPlainObject(value: object): boolean {
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+  }
+}
+
+/**
+ * Test helper: shows what a redaction config would replace in a payload.
+ *
+ *   explainRedaction({ email: 'a@b.co', url: '/x?token=1' }).redactions
+ *   // → [{ path: 'email', rule: 'email', … }, { path: 'url', rule: 'queryParam', … }]
+ */
+export function explainRedaction<T>(
+  payload: T,
+  config?: RedactionConfig
+): RedactionReport<T> {
+  return new Redactor(config).explain(payload);
+}
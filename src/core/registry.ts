@@ -0,0 +1,146 @@
+import type { AnalyticsConfig } from '../types';
+import type { ConsentCategory } from './consent';
+import type { BaseTracker } from './trackers/base';
+
+export type TrackerConstructor = new (analytics: any) => BaseTracker;
+
+export interface TrackerDefinition<TConfig = Record<string, any>> {
+  name: string;
+  tracker?: TrackerConstructor;
+  // Lazy alternative to `tracker`, so heavy trackers stay out of the main chunk
+  load?: () => Promise<TrackerConstructor>;
+  dependencies?: string[];
+  config?: TConfig;
+  enabled?: boolean | ((config: AnalyticsConfig) => boolean);
+  // Consent needed before the tracker starts; defaults to 'analytics'
+  category?: ConsentCategory;
+  // Browser storage keys the tracker writes, purged when consent is withdrawn
+  storageKeys?: string[];
+}
+
+type TrackerOptionKey = keyof NonNullable<AnalyticsConfig['options']>;
+
+function builtIn(
+  name: string,
+  load: () => Promise<TrackerConstructor>,
+  option?: TrackerOptionKey,
+  extra: Partial<TrackerDefinition> = {}
+): TrackerDefinition {
+  return {
+    name,
+    load,
+    enabled: option ? (config) => Boolean(config.options?.[option]) : true,
+    ...extra,
+  };
+}
+
+const BUILT_IN_TRACKERS: TrackerDefinition[] = [
+  builtIn('attribution', () => import('./trackers/attribution').then((m) => m.AttributionTracker), 'attribution', {
+    // Stores ad click ids and campaign history across visits
+    category: 'marketing',
+    storageKeys: ['thorbis_attribution'],
+  }),
+  builtIn('demographics', () => import('./trackers/demographics').then((m) => m.DemographicsTracker), 'demographics', {
+    // Looks visitors up with third-party IP services
+    category: 'marketing',
+    storageKeys: ['thorbis_location_cache'],
+  }),
+  builtIn('ecommerce', () => import('./trackers/ecommerce').then((m) => m.EcommerceTracker), 'ecommerce', {
+    storageKeys: ['thorbis_cart'],
+  }),
+  builtIn('engagement', () => import('./trackers/engagement').then((m) => m.EngagementTracker), 'engagement'),
+  builtIn('error', () => import('./trackers/error').then((m) => m.ErrorTracker), 'error', { category: 'performance' }),
+  builtIn('forms', () => import('./trackers/forms').then((m) => m.FormsTracker), 'forms'),
+  builtIn('media', () => import('./trackers/media').then((m) => m.MediaTracker), 'media'),
+  builtIn('navigation', () => import('./trackers/navigation').then((m) => m.NavigationTracker), 'navigation'),
+  builtIn('pageViews', () => import('./trackers/pageViews').then((m) => m.PageViewTracker), 'pageViews'),
+  builtIn('performance', () => import('./trackers/performance').then((m) => m.PerformanceTracker), 'performance', { category: 'performance' }),
+  builtIn('project', () => import('./trackers/project').then((m) => m.ProjectTracker), 'project'),
+  builtIn('replay', () => import('./trackers/replay').then((m) => m.ReplayTracker), 'replay'),
+  builtIn('search', () => import('./trackers/search').then((m) => m.SearchTracker), 'search'),
+  builtIn('session', () => import('./trackers/session').then((m) => m.SessionTracker), undefined, {
+    // Tab messages and the leader lease are only written without BroadcastChannel / Web Locks
+    storageKeys: ['thorbis_session', 'thorbis_tab_message', 'thorbis_leader_lease'],
+  }),
+  builtIn('seo', () => import('./trackers/seo').then((m) => m.SEOTracker), 'seo'),
+];
+
+/**
+ * Holds the tracker definitions an analytics instance will start: the
+ * built-in trackers plus any registered by the application.
+ */
+export class TrackerRegistry {
+  private definitions: Map<string, TrackerDefinition> = new Map();
+
+  constructor(definitions: TrackerDefinition[] = []) {
+    BUILT_IN_TRACKERS.forEach((definition) => this.register(definition));
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  register(definition: TrackerDefinition): void {
+    if (!definition.tracker && !definition.load) {
+      throw new Error(`Tracker "${definition.name}" needs a tracker class or loader`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  unregister(name: string): boolean {
+    return this.definitions.delete(name);
+  }
+
+  get(name: string): TrackerDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * Returns the definitions enabled for this config, in an order where every
+   * tracker comes after its dependencies. Trackers whose dependencies are
+   * missing, disabled or circular are skipped with a warning.
+   */
+  resolve(config: AnalyticsConfig): TrackerDefinition[] {
+    const enabled = new Map(
+      Array.from(this.definitions.values())
+        .filter((definition) => this.isEnabled(definition, config))
+        .map((definition) => [definition.name, definition])
+    );
+    const ordered: TrackerDefinition[] = [];
+    const state: Map<string, 'visiting' | 'done' | 'failed'> = new Map();
+
+    const visit = (name: string, chain: string[]): boolean => {
+      const current = state.get(name);
+      if (current === 'done') return true;
+      if (current === 'failed') return false;
+      if (current === 'visiting') {
+        console.warn(`Circular tracker dependency: ${[...chain, name].join(' → ')}`);
+        return false;
+      }
+
+      const definition = enabled.get(name);
+      if (!definition) {
+        console.warn(`Tracker "${chain[chain.length - 1]}" depends on missing or disabled "${name}"`);
+        return false;
+      }
+
+      state.set(name, 'visiting');
+      const resolved = (definition.dependencies || []).every((dependency) =>
+        visit(dependency, [...chain, name])
+      );
+      state.set(name, resolved ? 'done' : 'failed');
+
+      if (resolved) ordered.push(definition);
+      return resolved;
+    };
+
+    enabled.forEach((_, name) => visit(name, []));
+    return ordered;
+  }
+
+  private isEnabled(definition: TrackerDefinition, config: AnalyticsConfig): boolean {
+    if (typeof definition.enabled === 'function') return definition.enabled(config);
+    return definition.enabled ?? true;
+  }
+}
@@ -0,0 +1,269 @@
+import { compress, decompress, isCompressionSupported } from './compression';
+
+export interface SerializedNode {
+  id: number;
+  type: 'element' | 'text' | 'comment' | 'doctype';
+  tag?: string;
+  attributes?: Record<string, string>;
+  children?: SerializedNode[];
+  text?: string;
+  // Set on SVG and MathML elements so the player creates them in the right namespace
+  namespace?: string;
+}
+
+export interface MutationAdd {
+  parentId: number;
+  nextId: number | null;
+  node: SerializedNode;
+}
+
+export type ReplayEvent =
+  | {
+      type: 'snapshot';
+      timestamp: number;
+      // Base for the relative URLs of stylesheets and images
+      url: string;
+      node: SerializedNode;
+      viewport: { width: number; height: number };
+      scroll: { x: number; y: number };
+    }
+  | {
+      type: 'mutation';
+      timestamp: number;
+      adds: MutationAdd[];
+      removes: Array<{ parentId: number; id: number }>;
+      attributes: Array<{ id: number; name: string; value: string | null }>;
+      texts: Array<{ id: number; value: string }>;
+    }
+  | { type: 'input'; timestamp: number; id: number; value?: string; checked?: boolean }
+  // id 0 is the document itself
+  | { type: 'scroll'; timestamp: number; id: number; x: number; y: number }
+  | { type: 'pointer'; timestamp: number; kind: 'move' | 'click'; x: number; y: number }
+  | { type: 'viewport'; timestamp: number; width: number; height: number };
+
+export interface ReplayChunk {
+  type: 'replay';
+  sessionId: string;
+  sequence: number;
+  startTime: number;
+  endTime: number;
+  // gzip + base64 when the browser supports CompressionStream, else plain JSON
+  encoding: 'gzip' | 'json';
+  data: string;
+}
+
+export interface MaskingConfig {
+  maskAllInputs?: boolean;
+  // Inputs whose values are masked even when maskAllInputs is off
+  maskInputSelector?: string;
+  // Elements whose text content is masked
+  maskTextSelector?: string;
+  // Elements replaced by an empty placeholder of the same size
+  blockSelector?: string;
+}
+
+export const DOCUMENT_ID = 0;
+
+const IGNORED_TAGS = new Set(['SCRIPT', 'NOSCRIPT']);
+
+function mask(value: string): string {
+  return value.replace(/\S/g, '*');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export async function encodeReplayChunk(
+  events: ReplayEvent[],
+  meta: Pick<ReplayChunk, 'sessionId' | 'sequence'>
+): Promise<ReplayChunk> {
+  const json = JSON.stringify(events);
+  const chunk: ReplayChunk = {
+    type: 'replay',
+    ...meta,
+    startTime: events[0]?.timestamp ?? Date.now(),
+    endTime: events[events.length - 1]?.timestamp ?? Date.now(),
+    encoding: 'json',
+    data: json,
+  };
+
+  if (isCompressionSupported()) {
+    try {
+      chunk.data = toBase64(await compress(json, 'gzip'));
+      chunk.encoding = 'gzip';
+    } catch (error) {
+      console.warn('Replay compression failed, sending uncompressed:', error);
+    }
+  }
+
+  return chunk;
+}
+
+/**
+ * Decodes chunks (in any order) back into one time-ordered event stream.
+ */
+export async function decodeReplayChunks(chunks: ReplayChunk[]): Promise<ReplayEvent[]> {
+  const ordered = [...chunks].sort((a, b) => a.sequence - b.sequence);
+  const decoded = await Promise.all(
+    ordered.map(async (chunk) => {
+      const json =
+        chunk.encoding === 'gzip'
+          ? new TextDecoder().decode(await decompress(fromBase64(chunk.data), 'gzip'))
+          : chunk.data;
+      return JSON.parse(json) as ReplayEvent[];
+    })
+  );
+  return decoded.flat();
+}
+
+/**
+ * Turns live DOM nodes into serializable trees, assigning each node a stable
+ * id so later mutations can refer to it. Masking is applied here, so masked
+ * values never leave the page.
+ */
+export class DomSerializer {
+  private ids: WeakMap<Node, number> = new WeakMap();
+  private nextId = 1;
+  private readonly config: MaskingConfig;
+
+  constructor(config: MaskingConfig = {}) {
+    this.config = config;
+  }
+
+  getId(node: Node): number | undefined {
+    if (node === document) return DOCUMENT_ID;
+    return this.ids.get(node);
+  }
+
+  /**
+   * Forgets all ids, for a fresh full snapshot.
+   */
+  reset(): void {
+    this.ids = new WeakMap();
+    this.nextId = 1;
+  }
+
+  serialize(node: Node): SerializedNode | null {
+    if (node.nodeType === Node.ELEMENT_NODE && IGNORED_TAGS.has((node as Element).tagName)) {
+      return null;
+    }
+
+    let id = this.ids.get(node);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.ids.set(node, id);
+    }
+
+    switch (node.nodeType) {
+      case Node.DOCUMENT_TYPE_NODE:
+        return { id, type: 'doctype', text: (node as DocumentType).name };
+      case Node.TEXT_NODE:
+        return { id, type: 'text', text: this.textValue(node as Text) };
+      case Node.COMMENT_NODE:
+        return { id, type: 'comment', text: '' };
+      case Node.ELEMENT_NODE:
+        return this.serializeElement(node as Element, id);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * True for nodes inside (or being) a blocked element. Only the blocked
+   * element's placeholder is recorded; nothing below it.
+   */
+  isBlocked(node: Node): boolean {
+    const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement;
+    return Boolean(this.config.blockSelector && element?.closest(this.config.blockSelector));
+  }
+
+  textValue(node: Text): string {
+    const parent = node.parentElement;
+    const text = node.textContent || '';
+    // Style text is needed to render and holds no user data
+    if (!parent || parent.tagName === 'STYLE') return text;
+    if (parent instanceof HTMLTextAreaElement && this.shouldMaskInput(parent)) return mask(text);
+    return this.config.maskTextSelector && parent.closest(this.config.maskTextSelector)
+      ? mask(text)
+      : text;
+  }
+
+  inputValue(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement): string {
+    return this.shouldMaskInput(element) ? mask(element.value) : element.value;
+  }
+
+  private serializeElement(element: Element, id: number): SerializedNode {
+    const tag = element.tagName.toLowerCase();
+    const namespace =
+      element.namespaceURI && element.namespaceURI !== 'http://www.w3.org/1999/xhtml'
+        ? element.namespaceURI
+        : undefined;
+
+    if (this.config.blockSelector && element.matches(this.config.blockSelector)) {
+      const { width, height } = element.getBoundingClientRect();
+      return {
+        id,
+        type: 'element',
+        tag: namespace ? 'svg' : 'div',
+        namespace,
+        attributes: {
+          'data-thorbis-blocked': '',
+          style: `width:${width}px;height:${height}px;background:#ccc`,
+        },
+        children: [],
+      };
+    }
+
+    const attributes: Record<string, string> = {};
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      // Inline handlers would run inside the player
+      if (name.startsWith('on')) return;
+      attributes[name] = name === 'value' && this.isInput(element) ? this.inputValue(element) : value;
+    });
+
+    if (this.isInput(element) && element.type !== 'checkbox' && element.type !== 'radio') {
+      attributes.value = this.inputValue(element);
+    }
+    if (element instanceof HTMLInputElement && element.checked) {
+      attributes.checked = '';
+    }
+
+    const children: SerializedNode[] = [];
+    element.childNodes.forEach((child) => {
+      const serialized = this.serialize(child);
+      if (serialized) children.push(serialized);
+    });
+
+    return { id, type: 'element', tag, namespace, attributes, children };
+  }
+
+  private isInput(
+    element: Element
+  ): element is HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement {
+    return (
+      element instanceof HTMLInputElement ||
+      element instanceof HTMLTextAreaElement ||
+      element instanceof HTMLSelectElement
+    );
+  }
+
+  private shouldMaskInput(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement): boolean {
+    if (element instanceof HTMLInputElement && element.type === 'password') return true;
+    if (this.config.maskAllInputs !== false) return true;
+    return Boolean(this.config.maskInputSelector && element.matches(this.config.maskInputSelector));
+  }
+}
@@ -0,0 +1,281 @@
+import { DOCUMENT_ID } from './replay';
+import type { ReplayEvent, SerializedNode } from './replay';
+
+export type ReplayerListener = (time: number, playing: boolean) => void;
+
+/**
+ * Rebuilds recorded sessions inside a sandboxed iframe. Times are in ms
+ * from the start of the recording. Seeking rebuilds the DOM from the last
+ * full snapshot before the target time and applies everything after it.
+ */
+export class Replayer {
+  private readonly events: ReplayEvent[];
+  private readonly iframe: HTMLIFrameElement;
+  private readonly cursor: HTMLDivElement;
+  private readonly wrapper: HTMLDivElement;
+  private nodes: Map<number, Node> = new Map();
+  private applied: number = 0; // index of the next event to apply
+  private currentTime: number = 0;
+  private playing: boolean = false;
+  private frame: number | null = null;
+  private lastFrameAt: number = 0;
+  private speed: number = 1;
+  private readonly listeners: Set<ReplayerListener> = new Set();
+
+  constructor(container: HTMLElement, events: ReplayEvent[]) {
+    this.events = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+    this.wrapper = document.createElement('div');
+    this.wrapper.style.cssText = 'position:relative;transform-origin:0 0;';
+
+    this.iframe = document.createElement('iframe');
+    // No allow-scripts: recorded pages must never run code in the player
+    this.iframe.setAttribute('sandbox', 'allow-same-origin');
+    this.iframe.style.cssText = 'border:0;background:#fff;display:block;';
+
+    this.cursor = document.createElement('div');
+    this.cursor.style.cssText =
+      'position:absolute;width:12px;height:12px;margin:-6px 0 0 -6px;border-radius:50%;' +
+      'background:rgba(255,64,64,.8);pointer-events:none;transition:transform .1s;';
+
+    this.wrapper.append(this.iframe, this.cursor);
+    container.appendChild(this.wrapper);
+    this.seek(0);
+  }
+
+  get startTime(): number {
+    return this.events[0]?.timestamp ?? 0;
+  }
+
+  get duration(): number {
+    const last = this.events[this.events.length - 1];
+    return last ? last.timestamp - this.startTime : 0;
+  }
+
+  get time(): number {
+    return this.currentTime;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  onTick(listener: ReplayerListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  play(): void {
+    if (this.playing) return;
+    if (this.currentTime >= this.duration) this.seek(0);
+
+    this.playing = true;
+    this.lastFrameAt = performance.now();
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  pause(): void {
+    this.playing = false;
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.notify();
+  }
+
+  seek(time: number): void {
+    const target = this.startTime + Math.max(0, Math.min(time, this.duration));
+
+    // Moving backwards means starting again from an earlier snapshot
+    let start = this.applied;
+    if (target < this.startTime + this.currentTime || this.applied === 0) {
+      start = 0;
+      for (let i = 0; i < this.events.length && this.events[i].timestamp <= target; i++) {
+        if (this.events[i].type === 'snapshot') start = i;
+      }
+    }
+
+    for (let i = start; i < this.events.length && this.events[i].timestamp <= target; i++) {
+      this.apply(this.events[i]);
+      this.applied = i + 1;
+    }
+
+    this.currentTime = target - this.startTime;
+    this.notify();
+  }
+
+  destroy(): void {
+    this.pause();
+    this.listeners.clear();
+    this.wrapper.remove();
+  }
+
+  private tick = (now: number): void => {
+    if (!this.playing) return;
+
+    const elapsed = (now - this.lastFrameAt) * this.speed;
+    this.lastFrameAt = now;
+    this.seek(this.currentTime + elapsed);
+
+    if (this.currentTime >= this.duration) {
+      this.pause();
+      return;
+    }
+    this.frame = requestAnimationFrame(this.tick);
+  };
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.currentTime, this.playing));
+  }
+
+  private apply(event: ReplayEvent): void {
+    try {
+      switch (event.type) {
+        case 'snapshot':
+          this.applySnapshot(event.node, event.viewport, event.url);
+          this.getWindow()?.scrollTo(event.scroll.x, event.scroll.y);
+          break;
+        case 'mutation':
+          this.applyMutation(event);
+          break;
+        case 'input': {
+          const element = this.nodes.get(event.id) as HTMLInputElement | undefined;
+          if (!element) break;
+          if (event.checked !== undefined) element.checked = event.checked;
+          if (event.value !== undefined) element.value = event.value;
+          break;
+        }
+        case 'scroll':
+          if (event.id === DOCUMENT_ID) {
+            this.getWindow()?.scrollTo(event.x, event.y);
+          } else {
+            (this.nodes.get(event.id) as Element | undefined)?.scrollTo(event.x, event.y);
+          }
+          break;
+        case 'pointer':
+          this.cursor.style.left = `${event.x}px`;
+          this.cursor.style.top = `${event.y}px`;
+          this.cursor.style.transform = event.kind === 'click' ? 'scale(2)' : 'scale(1)';
+          break;
+        case 'viewport':
+          this.setViewport(event.width, event.height);
+          break;
+      }
+    } catch (error) {
+      console.warn(`Failed to apply replay ${event.type} event:`, error);
+    }
+  }
+
+  private applySnapshot(
+    node: SerializedNode,
+    viewport: { width: number; height: number },
+    url: string
+  ): void {
+    this.setViewport(viewport.width, viewport.height);
+
+    const doc = this.iframe.contentDocument;
+    if (!doc) return;
+
+    doc.open();
+    doc.write('<!DOCTYPE html><html></html>');
+    doc.close();
+
+    this.nodes = new Map([[DOCUMENT_ID, doc]]);
+    doc.replaceChild(this.build(node, doc), doc.documentElement);
+
+    if (doc.head && !doc.querySelector('base')) {
+      const base = doc.createElement('base');
+      base.href = url;
+      doc.head.prepend(base);
+    }
+  }
+
+  private applyMutation(event: Extract<ReplayEvent, { type: 'mutation' }>): void {
+    const doc = this.iframe.contentDocument;
+    if (!doc) return;
+
+    event.removes.forEach(({ id }) => {
+      const node = this.nodes.get(id);
+      node?.parentNode?.removeChild(node);
+    });
+
+    event.adds.forEach(({ parentId, nextId, node }) => {
+      const parent = this.nodes.get(parentId);
+      if (!parent) return;
+      const next = nextId === null ? null : this.nodes.get(nextId) || null;
+      parent.insertBefore(this.build(node, doc), next && next.parentNode === parent ? next : null);
+    });
+
+    event.attributes.forEach(({ id, name, value }) => {
+      const element = this.nodes.get(id) as Element | undefined;
+      if (!element) return;
+      if (value === null) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+        if (name === 'value' && 'value' in element) (element as HTMLInputElement).value = value;
+      }
+    });
+
+    event.texts.forEach(({ id, value }) => {
+      const node = this.nodes.get(id);
+      if (node) node.textContent = value;
+    });
+  }
+
+  private build(node: SerializedNode, doc: Document): Node {
+    let built: Node;
+
+    switch (node.type) {
+      case 'text':
+        built = doc.createTextNode(node.text || '');
+        break;
+      case 'comment':
+        built = doc.createComment(node.text || '');
+        break;
+      case 'doctype':
+        built = doc.implementation.createDocumentType(node.text || 'html', '', '');
+        break;
+      default: {
+        const element = node.namespace
+          ? doc.createElementNS(node.namespace, node.tag as string)
+          : doc.createElement(node.tag as string);
+        Object.entries(node.attributes || {}).forEach(([name, value]) => {
+          try {
+            element.setAttribute(name, value);
+          } catch {
+            // Attribute names the browser accepted while recording may not parse here
+          }
+        });
+        (node.children || []).forEach((child) => element.appendChild(this.build(child, doc)));
+        built = element;
+      }
+    }
+
+    this.nodes.set(node.id, built);
+    return built;
+  }
+
+  private setViewport(width: number, height: number): void {
+    this.iframe.width = String(width);
+    this.iframe.height = String(height);
+
+    // Scale the recorded viewport down to fit the container
+    const available = this.wrapper.parentElement?.clientWidth || width;
+    const scale = Math.min(1, available / width);
+    this.wrapper.style.transform = `scale(${scale})`;
+    this.wrapper.style.width = `${width}px`;
+    this.wrapper.style.height = `${height}px`;
+    if (this.wrapper.parentElement) {
+      this.wrapper.parentElement.style.height = `${height * scale}px`;
+    }
+  }
+
+  private getWindow(): Window | null {
+    return this.iframe.contentWindow;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Sampler, hashToUnit } from './sampling';
+
+const ids = Array.from({ length: 2000 }, (_, index) => `visitor-${index}`);
+
+describe('hashToUnit', () => {
+  it('maps the same id to the same place in [0, 1)', () => {
+    ids.forEach((id) => {
+      const value = hashToUnit(id);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      expect(hashToUnit(id)).toBe(value);
+    });
+  });
+});
+
+describe('Sampler', () => {
+  it('keeps about the configured share of sessions', () => {
+    const kept = ids.filter((id) => new Sampler(0.3, undefined, id).inSample).length;
+
+    expect(kept / ids.length).toBeGreaterThan(0.25);
+    expect(kept / ids.length).toBeLessThan(0.35);
+  });
+
+  it('keeps or drops whole sessions at the extremes', () => {
+    expect(ids.every((id) => new Sampler(1, undefined, id).inSample)).toBe(true);
+    expect(ids.some((id) => new Sampler(0, undefined, id).inSample)).toBe(false);
+    expect(new Sampler(undefined, undefined, 'visitor').inSample).toBe(true);
+  });
+
+  it('drops every event outside the sample', () => {
+    const sampler = new Sampler(0, undefined, 'visitor');
+
+    expect(sampler.decide('click')).toEqual({ keep: false, rate: 0 });
+  });
+
+  it('decides again when reseeded with another id', () => {
+    const sampler = new Sampler(0.5, undefined, 'visitor');
+    const other = ids.find((id) => hashToUnit(id) < 0.5 !== sampler.inSample) as string;
+
+    sampler.reseed(other);
+    expect(sampler.inSample).toBe(hashToUnit(other) < 0.5);
+  });
+
+  it('combines session, tracker and event rates', () => {
+    const sampler = new Sampler({ session: 1, trackers: { engagement: 0.5 }, events: { click: 0.2 } }, undefined, 'visitor');
+
+    expect(sampler.decide('click', 'engagement').rate).toBeCloseTo(0.1, 10);
+    expect(sampler.decide('click').rate).toBeCloseTo(0.2, 10);
+    expect(sampler.decide('page_view', 'pageViews')).toEqual({ keep: true, rate: 1 });
+  });
+
+  it('never keeps events sampled at zero', () => {
+    const sampler = new Sampler({ events: { scroll: 0 } }, undefined, 'visitor');
+
+    expect(Array.from({ length: 50 }, () => sampler.decide('scroll').keep)).not.toContain(true);
+  });
+
+  it('throttles the default noisy events with a numeric limit', () => {
+    const sampler = new Sampler(1, 2, 'visitor');
+
+    expect([1, 2, 3].map(() => sampler.decide('scroll').keep)).toEqual([true, true, false]);
+    expect(sampler.decide('click').keep).toBe(true);
+  });
+
+  it('reports how many events were throttled since the last one kept', () => {
+    vi.useFakeTimers();
+    try {
+      const sampler = new Sampler(1, { engagement_move: { rate: 20, burst: 1 } }, 'visitor');
+
+      expect(sampler.decide('engagement_move')).toMatchObject({ keep: true, dropped: 0 });
+      expect(sampler.decide('engagement_move').keep).toBe(false);
+      expect(sampler.decide('engagement_move').keep).toBe(false);
+
+      vi.advanceTimersByTime(80);
+
+      expect(sampler.decide('engagement_move')).toMatchObject({ keep: true, dropped: 2 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,134 @@
+export interface SamplingConfig {
+  session?: number; // 0-1, decided once per anonymous id
+  trackers?: Record<string, number>;
+  events?: Record<string, number>;
+}
+
+export interface ThrottleRule {
+  rate: number; // events per second
+  burst?: number;
+}
+
+export type ThrottleConfig = number | Record<string, ThrottleRule>;
+
+export interface SamplingDecision {
+  keep: boolean;
+  rate: number;
+  dropped?: number; // events of this type throttled away since the last one kept
+}
+
+// Noisy events that a bare numeric `throttle` applies to
+const DEFAULT_THROTTLED_EVENTS = ['engagement_move', 'engagement_hover', 'scroll'];
+
+/**
+ * Maps a string onto [0, 1) with 32-bit FNV-1a, so the same id always lands
+ * in the same place.
+ */
+export function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private readonly rate: number;
+  private readonly capacity: number;
+  dropped: number = 0;
+
+  constructor(rule: ThrottleRule) {
+    this.rate = rule.rate;
+    this.capacity = rule.burst ?? Math.max(1, rule.rate);
+    this.tokens = this.capacity;
+  }
+
+  take(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.rate
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) {
+      this.dropped++;
+      return false;
+    }
+
+    this.tokens--;
+    return true;
+  }
+}
+
+export class Sampler {
+  private sampled: boolean = false;
+  private readonly sessionRate: number;
+  private readonly config: SamplingConfig;
+  private readonly throttleRules: Record<string, ThrottleRule>;
+  private readonly buckets: Map<string, TokenBucket> = new Map();
+
+  constructor(
+    sampling: number | SamplingConfig | undefined,
+    throttle: ThrottleConfig | undefined,
+    anonymousId: string
+  ) {
+    this.config = typeof sampling === 'number' ? { session: sampling } : sampling || {};
+    this.sessionRate = this.clamp(this.config.session ?? 1);
+    this.reseed(anonymousId);
+    this.throttleRules =
+      typeof throttle === 'number'
+        ? Object.fromEntries(DEFAULT_THROTTLED_EVENTS.map((event) => [event, { rate: throttle }]))
+        : throttle || {};
+  }
+
+  get inSample(): boolean {
+    return this.sampled;
+  }
+
+  /**
+   * Decides session sampling again for another anonymous id, such as the
+   * persisted one that replaces the per-session fallback once consented.
+   */
+  reseed(anonymousId: string): void {
+    this.sampled = hashToUnit(anonymousId) < this.sessionRate;
+  }
+
+  /**
+   * Decides whether an event is kept. The returned rate is the combined
+   * probability of keeping it, so the backend can weight counts by 1 / rate.
+   */
+  decide(eventType: string, tracker?: string): SamplingDecision {
+    if (!this.inSample) return { keep: false, rate: this.sessionRate };
+
+    const trackerRate = this.clamp(tracker ? this.config.trackers?.[tracker] ?? 1 : 1);
+    const eventRate = this.clamp(this.config.events?.[eventType] ?? 1);
+    const rate = this.sessionRate * trackerRate * eventRate;
+
+    if (Math.random() >= trackerRate * eventRate) {
+      return { keep: false, rate };
+    }
+
+    const rule = this.throttleRules[eventType];
+    if (!rule) return { keep: true, rate };
+
+    let bucket = this.buckets.get(eventType);
+    if (!bucket) {
+      bucket = new TokenBucket(rule);
+      this.buckets.set(eventType, bucket);
+    }
+
+    if (!bucket.take()) return { keep: false, rate };
+
+    const dropped = bucket.dropped;
+    bucket.dropped = 0;
+    return { keep: true, rate, dropped };
+  }
+
+  private clamp(rate: number): number {
+    return Math.min(1, Math.max(0, rate));
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { computeLift, normalCdf, normalQuantile, summarizeExperiment } from './stats';
+import type { AnalyticsEvent } from './types';
+
+function exposure(visitor: string, variant: string, timestamp: number): AnalyticsEvent {
+  return {
+    type: 'experimentExposure',
+    data: { experiment: 'checkout', variant },
+    context: { anonymousId: visitor },
+    timestamp,
+  };
+}
+
+function purchase(visitor: string, timestamp: number): AnalyticsEvent {
+  return { type: 'purchase', data: {}, context: { anonymousId: visitor }, timestamp };
+}
+
+describe('normal distribution helpers', () => {
+  it('inverts the CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalCdf(normalQuantile(0.01))).toBeCloseTo(0.01, 6);
+  });
+});
+
+describe('computeLift', () => {
+  it('reports lift, intervals and significance for a clear winner', () => {
+    const result = computeLift({ visitors: 1000, conversions: 100 }, { visitors: 1000, conversions: 130 });
+
+    expect(result.controlRate).toBe(0.1);
+    expect(result.variantRate).toBe(0.13);
+    expect(result.difference).toBeCloseTo(0.03, 10);
+    expect(result.lift).toBeCloseTo(0.3, 10);
+    expect(result.pValue).toBeCloseTo(0.0355, 3);
+    expect(result.significant).toBe(true);
+    expect(result.differenceInterval[0]).toBeGreaterThan(0);
+    expect(result.liftInterval[0]).toBeLessThan(0.3);
+    expect(result.liftInterval[1]).toBeGreaterThan(0.3);
+  });
+
+  it('is not significant for identical arms', () => {
+    const result = computeLift({ visitors: 500, conversions: 50 }, { visitors: 500, conversions: 50 });
+
+    expect(result.lift).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 6);
+    expect(result.significant).toBe(false);
+  });
+
+  it('respects a stricter confidence level', () => {
+    const result = computeLift({ visitors: 1000, conversions: 100 }, { visitors: 1000, conversions: 130 }, 0.99);
+
+    expect(result.confidence).toBe(0.99);
+    expect(result.significant).toBe(false);
+  });
+
+  it('handles arms without visitors or conversions', () => {
+    const result = computeLift({ visitors: 0, conversions: 0 }, { visitors: 0, conversions: 0 });
+
+    expect(result).toMatchObject({ controlRate: 0, variantRate: 0, lift: 0, pValue: 1, significant: false });
+    expect(result.liftInterval).toEqual([0, 0]);
+  });
+});
+
+describe('summarizeExperiment', () => {
+  const options = { experiment: 'checkout', conversion: 'purchase', control: 'control' };
+
+  it('counts visitors by their first exposure and conversions after it', () => {
+    const summary = summarizeExperiment(
+      [
+        exposure('a', 'control', 10),
+        purchase('a', 20),
+        exposure('b', 'control', 10),
+        // Converted before seeing the experiment
+        purchase('c', 5),
+        exposure('c', 'new', 10),
+        exposure('d', 'new', 10),
+        purchase('d', 30),
+        // A later exposure does not move the visitor to another variant
+        exposure('d', 'control', 40),
+      ],
+      options
+    );
+
+    expect(summary.map(({ variant, visitors, conversions }) => ({ variant, visitors, conversions }))).toEqual([
+      { variant: 'control', visitors: 2, conversions: 1 },
+      { variant: 'new', visitors: 2, conversions: 1 },
+    ]);
+    expect(summary[0].lift).toBeUndefined();
+    expect(summary[1].lift?.lift).toBe(0);
+  });
+
+  it('ignores other experiments and events without a visitor', () => {
+    const summary = summarizeExperiment(
+      [
+        exposure('a', 'control', 10),
+        { ...exposure('b', 'control', 10), data: { experiment: 'pricing', variant: 'control' } },
+        { ...exposure('c', 'new', 10), context: {} },
+      ],
+      options
+    );
+
+    expect(summary).toEqual([{ variant: 'control', visitors: 1, conversions: 0, rate: 0, lift: undefined }]);
+  });
+
+  it('uses the first variant seen as the control by default', () => {
+    const summary = summarizeExperiment([exposure('a', 'new', 10), exposure('b', 'old', 10)], {
+      experiment: 'checkout',
+      conversion: 'purchase',
+    });
+
+    expect(summary[0]).toMatchObject({ variant: 'new', lift: undefined });
+    expect(summary[1].lift).toBeDefined();
+  });
+});
@@ -0,0 +1,169 @@
+import type { AnalyticsEvent } from './types';
+
+export interface ConversionCounts {
+  visitors: number;
+  conversions: number;
+}
+
+export interface LiftResult {
+  controlRate: number;
+  variantRate: number;
+  // Relative change in conversion rate, e.g. 0.12 for +12%
+  lift: number;
+  liftInterval: [number, number];
+  // Absolute difference in conversion rate
+  difference: number;
+  differenceInterval: [number, number];
+  pValue: number;
+  confidence: number;
+  significant: boolean;
+}
+
+export interface VariantSummary extends ConversionCounts {
+  variant: string;
+  rate: number;
+  lift?: LiftResult; // against the control; absent for the control itself
+}
+
+/**
+ * Standard normal CDF via the Abramowitz-Stegun erf approximation
+ * (error below 1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation).
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.928510446969, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Compares a variant's conversion rate with the control's using the normal
+ * approximation to two proportions. The interval on relative lift uses the
+ * delta method, so it is only trustworthy with a few dozen conversions in
+ * each arm.
+ */
+export function computeLift(
+  control: ConversionCounts,
+  variant: ConversionCounts,
+  confidence: number = 0.95
+): LiftResult {
+  const controlRate = control.visitors ? control.conversions / control.visitors : 0;
+  const variantRate = variant.visitors ? variant.conversions / variant.visitors : 0;
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const difference = variantRate - controlRate;
+
+  const controlVariance = control.visitors ? (controlRate * (1 - controlRate)) / control.visitors : 0;
+  const variantVariance = variant.visitors ? (variantRate * (1 - variantRate)) / variant.visitors : 0;
+  const differenceError = Math.sqrt(controlVariance + variantVariance);
+
+  // Pooled standard error for the test of no difference
+  const pooledRate =
+    (control.conversions + variant.conversions) / Math.max(1, control.visitors + variant.visitors);
+  const pooledError = Math.sqrt(
+    pooledRate * (1 - pooledRate) * (1 / Math.max(1, control.visitors) + 1 / Math.max(1, variant.visitors))
+  );
+  const pValue = pooledError > 0 ? 2 * (1 - normalCdf(Math.abs(difference) / pooledError)) : 1;
+
+  let lift = 0;
+  let liftInterval: [number, number] = [0, 0];
+  if (controlRate > 0) {
+    lift = difference / controlRate;
+    const liftError = Math.sqrt(
+      variantVariance / (controlRate * controlRate) +
+        (variantRate * variantRate * controlVariance) / Math.pow(controlRate, 4)
+    );
+    liftInterval = [lift - z * liftError, lift + z * liftError];
+  }
+
+  return {
+    controlRate,
+    variantRate,
+    lift,
+    liftInterval,
+    difference,
+    differenceInterval: [difference - z * differenceError, difference + z * differenceError],
+    pValue,
+    confidence,
+    significant: pValue < 1 - confidence,
+  };
+}
+
+/**
+ * Tallies an experiment from raw events: visitors are those with an
+ * exposure event, and a visitor converts when a conversion event follows
+ * their first exposure. Visitors are identified by `context.anonymousId`.
+ */
+export function summarizeExperiment(
+  events: AnalyticsEvent[],
+  options: { experiment: string; conversion: string; control?: string; confidence?: number }
+): VariantSummary[] {
+  const exposures: Map<string, { variant: string; at: number }> = new Map();
+  const conversions: Map<string, number[]> = new Map();
+
+  events.forEach((event) => {
+    const visitor = event.context?.anonymousId;
+    if (!visitor) return;
+
+    if (event.type === 'experimentExposure' && event.data?.experiment === options.experiment) {
+      const existing = exposures.get(visitor);
+      if (!existing || event.timestamp < existing.at) {
+        exposures.set(visitor, { variant: event.data.variant, at: event.timestamp });
+      }
+    } else if (event.type === options.conversion) {
+      conversions.set(visitor, [...(conversions.get(visitor) || []), event.timestamp]);
+    }
+  });
+
+  const counts: Map<string, ConversionCounts> = new Map();
+  exposures.forEach(({ variant, at }, visitor) => {
+    const entry = counts.get(variant) || { visitors: 0, conversions: 0 };
+    entry.visitors++;
+    if ((conversions.get(visitor) || []).some((timestamp) => timestamp >= at)) entry.conversions++;
+    counts.set(variant, entry);
+  });
+
+  const control = options.control || Array.from(counts.keys())[0];
+  const controlCounts = counts.get(control);
+
+  return Array.from(counts.entries()).map(([variant, entry]) => ({
+    variant,
+    ...entry,
+    rate: entry.visitors ? entry.conversions / entry.visitors : 0,
+    lift:
+      variant !== control && controlCounts
+        ? computeLift(controlCounts, entry, options.confidence)
+        : undefined,
+  }));
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { TabCoordinator } from './tabs';
+
+// Node has BroadcastChannel but neither Web Locks nor localStorage, so
+// election runs on the storage lease
+const globals = globalThis as any;
+const store = new Map<string, string>();
+const open: TabCoordinator[] = [];
+
+function openTab(): TabCoordinator {
+  const tab = new TabCoordinator();
+  open.push(tab);
+  return tab;
+}
+
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+// Runs a test against a fresh store, closing every tab it opened
+function withTabs(test: () => void | Promise<void>) {
+  return async () => {
+    store.clear();
+    globals.window = { addEventListener() {}, removeEventListener() {} };
+    globals.localStorage = {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    };
+    try {
+      await test();
+    } finally {
+      open.splice(0).forEach((tab) => tab.close());
+      delete globals.window;
+      delete globals.localStorage;
+    }
+  };
+}
+
+describe('TabCoordinator', () => {
+  it('elects the first tab and leaves later tabs as followers', withTabs(() => {
+    const first = openTab();
+    const second = openTab();
+
+    expect(first.isLeader).toBe(true);
+    expect(second.isLeader).toBe(false);
+  }));
+
+  it('hands leadership over once the leader closes', withTabs(() => {
+    const first = openTab();
+    const second = openTab();
+    const changes: boolean[] = [];
+    second.onLeaderChange((leader) => changes.push(leader));
+
+    first.close();
+    (second as any).tick();
+
+    expect(second.isLeader).toBe(true);
+    expect(changes).toEqual([true]);
+  }));
+
+  it('takes over an expired lease', withTabs(() => {
+    store.set('thorbis_leader_lease', JSON.stringify({ tabId: 'gone', expiresAt: Date.now() - 1 }));
+
+    expect(openTab().isLeader).toBe(true);
+  }));
+
+  it('counts peers and forgets them when they say goodbye', withTabs(async () => {
+    const first = openTab();
+    const second = openTab();
+    await delivered();
+
+    expect(first.peerCount).toBe(1);
+
+    second.close();
+    await delivered();
+
+    expect(first.peerCount).toBe(0);
+  }));
+
+  it('delivers messages to other tabs only', withTabs(async () => {
+    const first = openTab();
+    const second = openTab();
+    const received: string[] = [];
+    first.on('ping', (payload) => received.push(`first:${payload}`));
+    second.on('ping', (payload) => received.push(`second:${payload}`));
+
+    first.post('ping', 'hello');
+    await delivered();
+
+    expect(received).toEqual(['second:hello']);
+  }));
+});
@@ -0,0 +1,199 @@
+import { randomId } from './identity';
+
+export interface TabMessage<T = any> {
+  type: string;
+  tabId: string;
+  payload: T;
+}
+
+type MessageListener = (payload: any, message: TabMessage) => void;
+type LeaderListener = (isLeader: boolean) => void;
+
+const CHANNEL_NAME = 'thorbis_tabs';
+const LOCK_NAME = 'thorbis_leader';
+// Fallback transport and lease for browsers without BroadcastChannel / Web Locks
+const MESSAGE_KEY = 'thorbis_tab_message';
+const LEASE_KEY = 'thorbis_leader_lease';
+const PRESENCE_INTERVAL = 5000;
+const PEER_TIMEOUT = 15000;
+
+/**
+ * Lets the tabs of one origin talk to each other and agree on a single
+ * leader. Messages go over BroadcastChannel, falling back to storage events.
+ * The leader holds a Web Lock, so leadership passes to another tab as soon
+ * as the leader closes or crashes; without Web Locks a renewed lease in
+ * localStorage is used instead.
+ */
+export class TabCoordinator {
+  readonly tabId: string = randomId();
+  private leader: boolean = false;
+  private channel: BroadcastChannel | null = null;
+  private readonly listeners: Map<string, Set<MessageListener>> = new Map();
+  private readonly leaderListeners: Set<LeaderListener> = new Set();
+  private readonly peers: Map<string, number> = new Map();
+  private presenceTimer: NodeJS.Timeout | null = null;
+  private releaseLock: (() => void) | null = null;
+  private closed: boolean = false;
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event) => this.receive(event.data);
+    } else {
+      window.addEventListener('storage', this.handleStorage);
+    }
+
+    this.on('bye', (_, message) => this.peers.delete(message.tabId));
+
+    this.post('presence', null);
+    this.presenceTimer = setInterval(this.tick, PRESENCE_INTERVAL);
+    this.elect();
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Number of other tabs seen recently.
+   */
+  get peerCount(): number {
+    const now = Date.now();
+    this.peers.forEach((seenAt, tabId) => {
+      if (now - seenAt > PEER_TIMEOUT) this.peers.delete(tabId);
+    });
+    return this.peers.size;
+  }
+
+  onLeaderChange(listener: LeaderListener): () => void {
+    this.leaderListeners.add(listener);
+    return () => this.leaderListeners.delete(listener);
+  }
+
+  on(type: string, listener: MessageListener): () => void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+    return () => this.listeners.get(type)?.delete(listener);
+  }
+
+  post(type: string, payload: any): void {
+    if (this.closed) return;
+    const message: TabMessage = { type, tabId: this.tabId, payload };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else {
+        // Storage events only fire in other tabs, and only when the value changes
+        localStorage.setItem(MESSAGE_KEY, JSON.stringify({ ...message, nonce: randomId() }));
+      }
+    } catch (error) {
+      console.warn('Failed to message other tabs:', error);
+    }
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.post('bye', null);
+    this.closed = true;
+
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    this.releaseLock?.();
+    this.releaseLock = null;
+    if (this.leader && !this.hasWebLocks()) {
+      try {
+        localStorage.removeItem(LEASE_KEY);
+      } catch {
+        // Storage may be unavailable (e.g. privacy mode)
+      }
+    }
+
+    this.channel?.close();
+    this.channel = null;
+    window.removeEventListener('storage', this.handleStorage);
+    this.setLeader(false);
+    this.listeners.clear();
+  }
+
+  private elect(): void {
+    if (this.hasWebLocks()) {
+      // Resolves only once this tab holds the lock; held until released
+      navigator.locks
+        .request(LOCK_NAME, () => {
+          if (this.closed) return;
+          this.setLeader(true);
+          return new Promise<void>((resolve) => {
+            this.releaseLock = resolve;
+          });
+        })
+        .catch((error) => console.warn('Leader election failed:', error));
+      return;
+    }
+
+    this.renewLease();
+  }
+
+  private renewLease(): void {
+    try {
+      const now = Date.now();
+      const lease = JSON.parse(localStorage.getItem(LEASE_KEY) || 'null');
+
+      if (!lease || lease.tabId === this.tabId || lease.expiresAt < now) {
+        localStorage.setItem(
+          LEASE_KEY,
+          JSON.stringify({ tabId: this.tabId, expiresAt: now + PEER_TIMEOUT })
+        );
+      }
+
+      // Read back: if two tabs raced, the last write wins for both
+      const current = JSON.parse(localStorage.getItem(LEASE_KEY) || 'null');
+      this.setLeader(current?.tabId === this.tabId);
+    } catch {
+      // Without storage every tab has to act on its own
+      this.setLeader(true);
+    }
+  }
+
+  private tick = (): void => {
+    this.post('presence', null);
+    if (!this.hasWebLocks()) this.renewLease();
+  };
+
+  private setLeader(leader: boolean): void {
+    if (this.leader === leader) return;
+    this.leader = leader;
+    this.leaderListeners.forEach((listener) => listener(leader));
+  }
+
+  private hasWebLocks(): boolean {
+    return typeof navigator !== 'undefined' && 'locks' in navigator && !!navigator.locks;
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key !== MESSAGE_KEY || !event.newValue) return;
+    try {
+      this.receive(JSON.parse(event.newValue));
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+
+  private receive(message: TabMessage): void {
+    if (!message || message.tabId === this.tabId) return;
+
+    if (message.type !== 'bye') this.peers.set(message.tabId, Date.now());
+
+    this.listeners.get(message.type)?.forEach((listener) => {
+      try {
+        listener(message.payload, message);
+      } catch (error) {
+        console.warn(`Tab message handler for ${message.type} failed:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,185 @@
+import { BaseTracker } from './base';
+import { ATTRIBUTION_MODELS, computeCredit, parseTouch } from '../attribution';
+import type { AttributionModel, Touch } from '../attribution';
+import { enrich } from '../middleware';
+import type { AnalyticsEvent } from '../types';
+
+interface AttributionConfig {
+  // Event types that count as conversions
+  conversionEvents?: string[];
+  maxTouches?: number;
+  lookbackWindow?: number; // ms; older touches get no credit
+  halfLife?: number; // ms, for the time-decay model
+  // A repeat of the last touch within this window is the same visit
+  dedupeWindow?: number;
+}
+
+interface StoredAttribution {
+  firstTouch: Touch | null;
+  lastTouch: Touch | null;
+  touches: Touch[];
+}
+
+/**
+ * Records how visitors arrive (campaign parameters, ad click ids and
+ * referrers) across sessions, and tags every event with the current
+ * campaign context. When a conversion is tracked it emits an `attribution`
+ * event crediting the touches before it under each model.
+ */
+export class AttributionTracker extends BaseTracker {
+  protected config: AttributionConfig = {
+    conversionEvents: ['conversion', 'purchase'],
+    maxTouches: 20,
+    lookbackWindow: 90 * 24 * 60 * 60 * 1000, // 90 days
+    dedupeWindow: 30 * 60 * 1000, // 30 minutes
+  };
+  private readonly STORAGE_KEY = 'thorbis_attribution';
+  private data: StoredAttribution = { firstTouch: null, lastTouch: null, touches: [] };
+  private removeMiddleware: (() => void) | null = null;
+
+  constructor(analytics: any) {
+    super(analytics);
+  }
+
+  async init(): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    try {
+      this.data = this.load();
+      this.recordLanding();
+      this.removeMiddleware = this.analytics.use?.({
+        name: 'attribution',
+        handler: enrich(() => ({ attribution: this.getContext() })),
+      });
+      this.log('Attribution tracker initialized', this.data.lastTouch);
+    } catch (error) {
+      console.warn('Error initializing attribution tracker:', error);
+    }
+  }
+
+  private recordLanding(): void {
+    const touch = parseTouch(window.location.href, document.referrer);
+    if (!touch) return;
+
+    // Direct visits only count when nothing else is known (last non-direct touch)
+    if (touch.channel === 'direct' && this.data.touches.length > 0) return;
+    if (this.isRepeat(touch)) return;
+
+    this.data.touches = [...this.data.touches, touch].slice(-(this.config.maxTouches as number));
+    this.data.firstTouch = this.data.firstTouch || touch;
+    this.data.lastTouch = touch;
+    this.store();
+
+    this.analytics.track('campaignTouch', { ...touch });
+  }
+
+  private isRepeat(touch: Touch): boolean {
+    const last = this.data.lastTouch;
+    return (
+      !!last &&
+      touch.timestamp - last.timestamp < (this.config.dedupeWindow as number) &&
+      last.source === touch.source &&
+      last.medium === touch.medium &&
+      last.campaign === touch.campaign &&
+      last.term === touch.term &&
+      last.content === touch.content &&
+      last.clickId?.value === touch.clickId?.value
+    );
+  }
+
+  // The shape of UserEvent.context, plus the channel
+  private getContext(): Record<string, string | undefined> | undefined {
+    const touch = this.data.lastTouch;
+    if (!touch) return undefined;
+
+    return {
+      campaign: touch.campaign,
+      source: touch.source,
+      medium: touch.medium,
+      term: touch.term,
+      content: touch.content,
+      channel: touch.channel,
+    };
+  }
+
+  onEvent(event: AnalyticsEvent): void {
+    if (!this.config.conversionEvents?.includes(event.type)) return;
+
+    const conversionTime = event.timestamp;
+    const touches = this.data.touches.filter(
+      (touch) => conversionTime - touch.timestamp <= (this.config.lookbackWindow as number)
+    );
+    if (touches.length === 0) return;
+
+    const models = {} as Record<AttributionModel, Array<Record<string, any>>>;
+    ATTRIBUTION_MODELS.forEach((model) => {
+      models[model] = computeCredit(touches, model, {
+        conversionTime,
+        halfLife: this.config.halfLife,
+      }).map(({ touch, credit }) => ({
+        channel: touch.channel,
+        source: touch.source,
+        medium: touch.medium,
+        campaign: touch.campaign,
+        timestamp: touch.timestamp,
+        credit,
+      }));
+    });
+
+    this.analytics.track('attribution', {
+      conversion: event.type,
+      conversionId: event.id,
+      value: event.data?.value,
+      currency: event.data?.currency,
+      touchCount: touches.length,
+      daysToConvert: (conversionTime - touches[0].timestamp) / (24 * 60 * 60 * 1000),
+      models,
+    });
+  }
+
+  private load(): StoredAttribution {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null');
+      if (!stored) return this.data;
+
+      const cutoff = Date.now() - (this.config.lookbackWindow as number);
+      return {
+        // First touch is kept for good; the touch list only within the window
+        firstTouch: stored.firstTouch || null,
+        lastTouch: stored.lastTouch || null,
+        touches: (stored.touches || []).filter((touch: Touch) => touch.timestamp >= cutoff),
+      };
+    } catch {
+      return this.data;
+    }
+  }
+
+  private store(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn('Failed to store attribution:', error);
+    }
+  }
+
+  getData(): any {
+    const last = this.data.lastTouch;
+    return {
+      firstTouch: this.data.firstTouch,
+      lastTouch: last,
+      touches: this.data.touches.length,
+      // Shape of ContentPerformance.traffic_sources
+      traffic_sources: {
+        referrer: last?.referrer || '',
+        utm_source: last?.source || '',
+        utm_medium: last?.medium || '',
+        utm_campaign: last?.campaign || '',
+      },
+    };
+  }
+
+  cleanup(): void {
+    this.removeMiddleware?.();
+    this.removeMiddleware = null;
+  }
+}
@@ -1,14 +1,23 @@
 import type { AnalyticsInstance } from 'analytics';
+import type { AnalyticsEvent, EventBatch } from '../types';
 
 export abstract class BaseTracker {
   protected analytics: any;
   protected enabled: boolean;
+  protected config: Record<string, any> = {};
 
   constructor(analytics: any, enabled: boolean = true) {
     this.analytics = analytics;
     this.enabled = enabled;
   }
 
+  /**
+   * Applies per-tracker config from the registry. Called before init().
+   */
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+  }
+
   protected log(message: string, data?: any): void {
     if (this.enabled) {
       if (data) {
@@ -21,6 +30,13 @@ export abstract class BaseTracker {
     }
   }
 
+  // Optional lifecycle hooks, called by ThorbisAnalytics
+  onEvent?(event: AnalyticsEvent): void;
+  onFlush?(batch: EventBatch): void;
+  onSessionEnd?(): void | Promise<void>;
+  // A client-side navigation replaced the page without a new document
+  onRouteChange?(): void;
+
   abstract init(): Promise<void>;
   abstract cleanup(): void;
   abstract getData(): any;
@@ -0,0 +1,187 @@
+import { BaseTracker } from './base';
+import { ECOMMERCE_EVENTS, normalizeEcommerceEvent, productsFromJsonLd, roundAmount } from '../ecommerce';
+import type { EcommerceEventType, EcommerceProduct, LineItem } from '../ecommerce';
+import { readJsonLd } from '../jsonld';
+import type { AnalyticsEvent } from '../types';
+
+interface EcommerceConfig {
+  // Used when an event does not name its currency
+  currency?: string;
+  // Track productViewed for pages with a single schema.org Product
+  autoProductView?: boolean;
+}
+
+/**
+ * Gives commerce events (see EcommerceEventMap) a consistent shape: the
+ * currency is filled in, revenue and values are computed in the currency's
+ * minor unit, and product views are completed from the page's schema.org
+ * Product JSON-LD. Also keeps the cart contents for the visit.
+ */
+export class EcommerceTracker extends BaseTracker {
+  protected config: EcommerceConfig = {
+    currency: 'USD',
+    autoProductView: true,
+  };
+  private readonly CART_KEY = 'thorbis_cart';
+  private pageProducts: EcommerceProduct[] = [];
+  private lastAutoViewPath: string | null = null;
+  private cart: Map<string, LineItem> = new Map();
+  private removeMiddleware: (() => void) | null = null;
+  private metrics = {
+    productViews: 0,
+    orders: 0,
+    refunds: 0,
+    revenue: {} as Record<string, number>, // net of refunds, per currency
+  };
+
+  constructor(analytics: any) {
+    super(analytics);
+  }
+
+  async init(): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    try {
+      this.cart = this.loadCart();
+      this.removeMiddleware = this.analytics.use?.({
+        name: 'ecommerce',
+        handler: (event: AnalyticsEvent) => this.normalize(event),
+      });
+      this.scanPage();
+      this.log('Ecommerce tracker initialized', { products: this.pageProducts.length });
+    } catch (error) {
+      console.warn('Error initializing ecommerce tracker:', error);
+    }
+  }
+
+  /**
+   * Reads the page's Product JSON-LD and tracks a view of it once per path.
+   */
+  private scanPage(): void {
+    this.pageProducts = productsFromJsonLd(readJsonLd());
+
+    const path = window.location.pathname;
+    if (
+      this.config.autoProductView &&
+      this.pageProducts.length === 1 &&
+      this.lastAutoViewPath !== path
+    ) {
+      this.lastAutoViewPath = path;
+      this.analytics.track('productViewed', {
+        product: this.pageProducts[0],
+        source: 'json-ld',
+      });
+    }
+  }
+
+  private normalize(event: AnalyticsEvent): AnalyticsEvent | void {
+    if (!ECOMMERCE_EVENTS.includes(event.type as EcommerceEventType)) return;
+
+    const data =
+      event.type === 'productViewed'
+        ? { ...event.data, product: this.withPageProduct(event.data.product) }
+        : event.data;
+
+    return {
+      ...event,
+      data: normalizeEcommerceEvent(
+        event.type as EcommerceEventType,
+        data as any,
+        this.config.currency as string
+      ),
+    };
+  }
+
+  // Fills gaps in a viewed product from the page's structured data
+  private withPageProduct(product?: EcommerceProduct): EcommerceProduct | undefined {
+    const match = product
+      ? this.pageProducts.find((candidate) => candidate.id === product.id || (!!product.sku && candidate.sku === product.sku))
+      : undefined;
+    // The page's only product stands in when none was named, not for a different one
+    const fallback = !product?.id && !product?.sku && this.pageProducts.length === 1 ? this.pageProducts[0] : undefined;
+    const source = match || fallback;
+    if (!source) return product;
+
+    const defined = Object.fromEntries(
+      Object.entries(product || {}).filter(([, value]) => value !== undefined)
+    );
+    return { ...source, ...defined } as EcommerceProduct;
+  }
+
+  onEvent(event: AnalyticsEvent): void {
+    const { data } = event;
+
+    switch (event.type) {
+      case 'page_view':
+        // Client-side navigation renders a new product without a page load
+        setTimeout(() => this.scanPage(), 0);
+        break;
+      case 'productViewed':
+        this.metrics.productViews++;
+        break;
+      case 'productAdded':
+      case 'productRemoved':
+        if (data.item) this.updateCart(data.item, event.type === 'productAdded' ? 1 : -1);
+        break;
+      case 'purchase':
+        this.metrics.orders++;
+        this.addRevenue(data.currency, data.revenue || 0);
+        this.cart.clear();
+        this.storeCart();
+        break;
+      case 'refund':
+        this.metrics.refunds++;
+        this.addRevenue(data.currency, data.value || 0);
+        break;
+    }
+  }
+
+  private updateCart(item: LineItem, direction: 1 | -1): void {
+    const key = `${item.id}:${item.variant || ''}`;
+    const quantity = (this.cart.get(key)?.quantity || 0) + direction * (item.quantity || 1);
+
+    if (quantity > 0) {
+      this.cart.set(key, { ...this.cart.get(key), ...item, quantity });
+    } else {
+      this.cart.delete(key);
+    }
+    this.storeCart();
+  }
+
+  private addRevenue(currency: string, amount: number): void {
+    this.metrics.revenue[currency] = roundAmount((this.metrics.revenue[currency] || 0) + amount, currency);
+  }
+
+  private loadCart(): Map<string, LineItem> {
+    try {
+      return new Map(JSON.parse(sessionStorage.getItem(this.CART_KEY) || '[]'));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private storeCart(): void {
+    try {
+      sessionStorage.setItem(this.CART_KEY, JSON.stringify(Array.from(this.cart.entries())));
+    } catch (error) {
+      console.warn('Failed to store cart:', error);
+    }
+  }
+
+  getData(): any {
+    const items = Array.from(this.cart.values());
+    return {
+      ...this.metrics,
+      cart: {
+        items,
+        quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+        value: items.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0),
+      },
+    };
+  }
+
+  cleanup(): void {
+    this.removeMiddleware?.();
+    this.removeMiddleware = null;
+  }
+}
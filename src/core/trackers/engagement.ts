@@ -1,21 +1,5 @@
 import { BaseTracker } from './base';
-
-interface HeatmapPoint {
-  x: number;
-  y: number;
-  value: number; // Intensity/weight
-  timestamp: number;
-  elementInfo?: {
-    tag: string;
-    id?: string;
-    classes: string[];
-    text?: string;
-    path: string;
-    dimensions: DOMRect;
-    zIndex: number;
-    visibility: number;
-  };
-}
+import type { HeatmapPoint, HeatmapPointType, HeatmapSnapshot, ScrollSample } from '../heatmap';
 
 interface EngagementMetrics {
   interactions: {
@@ -115,6 +99,7 @@ interface EngagementMetrics {
       max: number;
       distribution: Record<string, number>;
       timestamps: number[];
+      samples: ScrollSample[];
     };
     rageClicks: Array<{
       x: number;
@@ -124,11 +109,7 @@ interface EngagementMetrics {
       element: string;
     }>;
     visualization: {
-      points: Array<{
-        x: number;
-        y: number;
-        value: number;
-      }>;
+      points: HeatmapPoint[];
       config: {
         width: number;
         height: number;
@@ -256,6 +237,10 @@ export class EngagementTracker extends BaseTracker {
 		},
 	};
 	private scrollPositions: number[] = [];
+	private hoverTimer: NodeJS.Timeout | null = null;
+	private hoverAnchor: { x: number; y: number; recorded: boolean } | null = null;
+	// Oldest points are dropped beyond this, to bound memory on long visits
+	private readonly MAX_HEATMAP_POINTS = 5000;
 
 	constructor(analytics: any) {
 		super(analytics);
@@ -265,6 +250,16 @@ export class EngagementTracker extends BaseTracker {
 		}
 	}
 
+	/**
+	 * Starts metrics and the heatmap over on a client-side navigation, since
+	 * the listeners stay attached to the same document.
+	 */
+	onRouteChange(): void {
+		this.metrics = this.initializeMetrics();
+		this.scrollPositions = [];
+		this.hoverAnchor = null;
+	}
+
 	private initializeMetrics(): EngagementMetrics {
 		return {
 			interactions: {
@@ -293,6 +288,7 @@ export class EngagementTracker extends BaseTracker {
 					max: 0,
 					distribution: {},
 					timestamps: [],
+					samples: [],
 				},
 				rageClicks: [],
 				visualization: {
@@ -352,14 +348,14 @@ export class EngagementTracker extends BaseTracker {
 	private handleClick = (event: MouseEvent): void => {
 		try {
 			const target = event.target;
-			if (!target || !(target instanceof Element)) return;
+			if (!target || !(target instanceof Element) || this.isOverlay(target)) return;
 
 			const now = Date.now();
 			const point = this.createInteractionPoint(event, target, 1.0);
 
 			// Use requestAnimationFrame for visual updates
 			requestAnimationFrame(() => {
-				this.updateMetrics(point, target as Element);
+				this.updateMetrics(point, target as Element, "click");
 			});
 
 			// Track analytics asynchronously
@@ -384,10 +380,11 @@ export class EngagementTracker extends BaseTracker {
 				cancelAnimationFrame(rafId);
 				rafId = requestAnimationFrame(() => {
 					const target = event.target;
-					if (!target || !(target instanceof Element)) return;
+					if (!target || !(target instanceof Element) || this.isOverlay(target)) return;
 
 					const point = this.createInteractionPoint(event, target, 0.3);
-					this.updateMetrics(point, target);
+					this.updateMetrics(point, target, "move");
+					this.scheduleHover(point, target);
 					lastProcessedTime = now;
 				});
 			} catch (error) {
@@ -396,14 +393,45 @@ export class EngagementTracker extends BaseTracker {
 		};
 	})();
 
+	// Using the heatmap overlay's controls is not activity on the page
+	private isOverlay(target: Element): boolean {
+		return !!target.closest(".thorbis-heatmap-controls");
+	}
+
 	private createInteractionPoint(event: MouseEvent, target: Element, intensity: number): InteractionPoint {
-		return {
+		const point = {
 			x: event.pageX,
 			y: event.pageY,
 			value: this.calculateIntensity(event.pageX, event.pageY, intensity),
 			timestamp: Date.now(),
 			elementInfo: this.getElementInfo(target),
 		};
+		this.lastPosition = { x: point.x, y: point.y, timestamp: point.timestamp };
+		return point;
+	}
+
+	// A hover is the pointer resting within a few pixels for the hover threshold
+	private scheduleHover(point: InteractionPoint, target: Element): void {
+		const anchor = this.hoverAnchor;
+		if (anchor && Math.hypot(point.x - anchor.x, point.y - anchor.y) < 10) return;
+
+		if (this.hoverTimer) clearTimeout(this.hoverTimer);
+		this.hoverAnchor = { x: point.x, y: point.y, recorded: false };
+		this.hoverTimer = setTimeout(() => {
+			this.hoverTimer = null;
+			if (!this.hoverAnchor || this.hoverAnchor.recorded) return;
+			this.hoverAnchor.recorded = true;
+
+			const duration = this.INTERACTION_THRESHOLDS.hover;
+			this.metrics.heatmap.hovers.push({
+				x: point.x,
+				y: point.y,
+				duration,
+				timestamp: Date.now(),
+				elementInfo: point.elementInfo,
+			});
+			this.updateMetrics({ ...point, value: 0.6, timestamp: Date.now() }, target, "hover");
+		}, this.INTERACTION_THRESHOLDS.hover);
 	}
 
 	private getElementInfo(element: Element): ElementInfo {
@@ -419,10 +447,10 @@ export class EngagementTracker extends BaseTracker {
 		};
 	}
 
-	private updateMetrics(point: InteractionPoint, target: Element): void {
+	private updateMetrics(point: InteractionPoint, target: Element, type: HeatmapPointType): void {
 		// Update metrics in a single batch
 		const updates = {
-			heatmap: this.updateHeatmap(point),
+			heatmap: this.updateHeatmap(point, type),
 			attention: this.updateAttention(target),
 			interactions: this.updateInteractions(point, target),
 		};
@@ -448,6 +476,10 @@ export class EngagementTracker extends BaseTracker {
 			if (this.moveThrottleTimer) {
 				clearTimeout(this.moveThrottleTimer);
 			}
+			if (this.hoverTimer) {
+				clearTimeout(this.hoverTimer);
+				this.hoverTimer = null;
+			}
 			if (this.observer) {
 				this.observer.disconnect();
 			}
@@ -556,18 +588,32 @@ export class EngagementTracker extends BaseTracker {
 		return totalArea > 0 ? visibleArea / totalArea : 0;
 	}
 
-	private updateHeatmap(point: InteractionPoint) {
-		return {
-			...this.metrics.heatmap,
-			points: [
-				...this.metrics.heatmap.visualization.points,
-				{
-					x: (point.x / window.innerWidth) * 100,
-					y: (point.y / window.innerHeight) * 100,
-					value: point.value,
-				},
-			],
-		};
+	private updateHeatmap(point: InteractionPoint, type: HeatmapPointType) {
+		const { heatmap } = this.metrics;
+		// Relative to the whole document, so points land on the same content at any scroll position
+		const { scrollWidth, scrollHeight } = document.documentElement;
+
+		if (type === "click") {
+			heatmap.clicks.push({ x: point.x, y: point.y, timestamp: point.timestamp, elementInfo: point.elementInfo });
+		} else if (type === "move") {
+			heatmap.moves.push({ x: point.x, y: point.y, timestamp: point.timestamp });
+		}
+
+		heatmap.visualization.points.push({
+			x: (point.x / scrollWidth) * 100,
+			y: (point.y / scrollHeight) * 100,
+			value: point.value,
+			type,
+			timestamp: point.timestamp,
+			viewportWidth: window.innerWidth,
+			path: window.location.pathname,
+		});
+
+		[heatmap.clicks, heatmap.moves, heatmap.hovers, heatmap.visualization.points].forEach((list: unknown[]) => {
+			if (list.length > this.MAX_HEATMAP_POINTS) list.splice(0, list.length - this.MAX_HEATMAP_POINTS);
+		});
+
+		return heatmap;
 	}
 
 	private updateAttention(target: Element) {
@@ -599,6 +645,7 @@ export class EngagementTracker extends BaseTracker {
 				requestAnimationFrame(() => {
 					const scrollDepth = this.calculateScrollDepth();
 					this.scrollPositions.push(scrollDepth);
+					this.updateScrollDepth(scrollDepth);
 					ticking = false;
 				});
 				ticking = true;
@@ -606,6 +653,26 @@ export class EngagementTracker extends BaseTracker {
 		};
 	})();
 
+	// One sample per page and viewport width, holding the deepest point reached
+	private updateScrollDepth(depth: number): void {
+		const scroll = this.metrics.heatmap.scrollDepth;
+		const path = window.location.pathname;
+		const last = scroll.samples[scroll.samples.length - 1];
+		const bucket = `${Math.min(90, Math.floor(depth / 10) * 10)}`;
+
+		scroll.max = Math.max(scroll.max, depth);
+		scroll.distribution[bucket] = (scroll.distribution[bucket] || 0) + 1;
+		scroll.timestamps.push(Date.now());
+		if (scroll.timestamps.length > this.MAX_HEATMAP_POINTS) scroll.timestamps.shift();
+
+		if (last && last.path === path && last.viewportWidth === window.innerWidth) {
+			last.depth = Math.max(last.depth, depth);
+			last.timestamp = Date.now();
+		} else {
+			scroll.samples.push({ depth, timestamp: Date.now(), viewportWidth: window.innerWidth, path });
+		}
+	}
+
 	private handleResize = (() => {
 		let ticking = false;
 		return () => {
@@ -708,6 +775,25 @@ export class EngagementTracker extends BaseTracker {
 		}
 	}
 
+	/**
+	 * Heatmap points and scroll samples collected on this page, for the overlay.
+	 */
+	getHeatmap(): HeatmapSnapshot {
+		// The first screen counts as seen even without scrolling
+		const path = window.location.pathname;
+		const scroll = this.metrics.heatmap.scrollDepth.samples.some((sample) => sample.path === path)
+			? this.metrics.heatmap.scrollDepth.samples
+			: [
+					...this.metrics.heatmap.scrollDepth.samples,
+					{ depth: this.calculateScrollDepth(), timestamp: Date.now(), viewportWidth: window.innerWidth, path },
+			  ];
+
+		return {
+			points: [...this.metrics.heatmap.visualization.points],
+			scroll: scroll.map((sample) => ({ ...sample })),
+		};
+	}
+
 	getData(): any {
 		return {
 			interactions: this.metrics.interactions,
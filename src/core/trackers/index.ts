@@ -11,6 +11,9 @@ export { DemographicsTracker } from './demographics';
 export { SearchTracker } from './search';
 export { SEOTracker } from './seo';
 export { SessionTracker } from './session';
+export { ReplayTracker } from './replay';
+export { AttributionTracker } from './attribution';
+export { EcommerceTracker } from './ecommerce';
 
 // Export types from the local types file
 export type { TrackerOptions, MediaData } from './types';
@@ -1,4 +1,5 @@
 import { BaseTracker } from './base';
+import type { AnalyticsEvent } from '../types';
 
 interface NavigationMetrics {
   session: {
@@ -17,7 +18,7 @@ interface NavigationMetrics {
     timestamp: string;
     referrer: string;
     type: 'initial' | 'navigation' | 'back' | 'forward' | 'reload' | 'external';
-    method: 'pushState' | 'replaceState' | 'popstate' | 'load' | 'redirect';
+    method: 'pushState' | 'replaceState' | 'popstate' | 'load' | 'redirect' | 'router';
     performance: {
       loadTime: number;
       transitionTime: number;
@@ -177,8 +178,11 @@ export class NavigationTracker extends BaseTracker {
     window.addEventListener('beforeunload', this.handleBeforeUnload, options);
     document.addEventListener('visibilitychange', this.handleVisibilityChange, options);
 
-    // Track programmatic navigation
-    this.interceptHistoryMethods();
+    // Track programmatic navigation, unless a router integration reports
+    // route changes as page events (see onEvent)
+    if (this.config.interceptHistory !== false) {
+      this.interceptHistoryMethods();
+    }
     this.interceptLinkClicks();
   }
 
@@ -216,19 +220,55 @@ export class NavigationTracker extends BaseTracker {
     };
   }
 
+  onEvent(event: AnalyticsEvent): void {
+    if (this.config.interceptHistory === false && event.type === 'page_view') {
+      this.handleNavigation('router');
+    }
+  }
+
   private interceptLinkClicks(): void {
     document.addEventListener('click', (event) => {
       const link = (event.target as HTMLElement).closest('a');
       if (!link) return;
 
+      const linked = this.decorateLink(link);
       const href = link.getAttribute('href');
       if (!href) return;
 
       const isExternal = href.startsWith('http') && !href.includes(window.location.hostname);
-      if (isExternal) {
-        this.trackExternalNavigation(href);
+      if (isExternal || linked) {
+        this.trackExternalNavigation(href, linked);
       }
     }, { passive: true });
+    // Middle clicks open a new tab without a click event. Only clicks count,
+    // so a press that turns into a drag or "copy link" carries no token
+    document.addEventListener('auxclick', this.handleMiddleClick, { passive: true });
+  }
+
+  private handleMiddleClick = (event: MouseEvent): void => {
+    if (event.button !== 1) return;
+    const link = (event.target as HTMLElement).closest('a');
+    if (link) this.decorateLink(link);
+  };
+
+  /**
+   * Adds a fresh cross-domain token to links to other allow-listed sites for
+   * the navigation being started. Returns whether the link carries one.
+   */
+  private decorateLink(link: HTMLAnchorElement): boolean {
+    if (!link.href || !this.analytics.decorateUrl) return false;
+
+    const decorated = this.analytics.decorateUrl(link.href);
+    if (decorated === link.href) return false;
+
+    // The navigation has read the href before timers run; restoring it keeps
+    // the spent token out of links copied later
+    const original = link.getAttribute('href');
+    link.href = decorated;
+    setTimeout(() => {
+      if (original !== null && link.href === decorated) link.setAttribute('href', original);
+    }, 0);
+    return true;
   }
 
   private handleNavigation(method: string): void {
@@ -332,10 +372,12 @@ export class NavigationTracker extends BaseTracker {
     this.metrics.session.exitPage = window.location.href;
   }
 
-  private trackExternalNavigation(url: string): void {
+  private trackExternalNavigation(url: string, linked: boolean = false): void {
     this.analytics.track('externalNavigation', {
       from: window.location.href,
-      to: url,
+      // Leave the token itself out of the event
+      to: linked ? url.split('?')[0] : url,
+      linked,
       timestamp: new Date().toISOString(),
     });
   }
@@ -507,6 +549,7 @@ export class NavigationTracker extends BaseTracker {
     window.removeEventListener('popstate', this.handlePopState);
     window.removeEventListener('beforeunload', this.handleBeforeUnload);
     document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    document.removeEventListener('auxclick', this.handleMiddleClick);
     
     if (this.observer) {
       this.observer.disconnect();
@@ -146,8 +146,10 @@ export class PageViewTracker extends BaseTracker {
     if (typeof window === 'undefined') return;
 
     try {
-      // Track initial page view
-      this.trackPageView();
+      // Track initial page view; router integrations report it themselves
+      if (this.config.trackInitialPageView !== false) {
+        this.trackPageView();
+      }
 
       // Set up event listeners with proper cleanup
       this.setupEventListeners();
@@ -73,34 +73,7 @@ interface ResourceEntry extends PerformanceResourceTiming {
 }
 
 export class PerformanceTracker extends BaseTracker {
-  private metrics: PerformanceMetrics = {
-    timing: {
-      loadTime: 0,
-      domInteractive: 0,
-      domComplete: 0,
-      ttfb: 0,
-      domLoad: 0,
-      windowLoad: 0,
-      fcp: 0,
-      lcp: 0,
-      fid: 0,
-      cls: 0,
-      inp: 0,
-      tbt: 0,
-    },
-    resources: [],
-    network: {},
-    paint: {
-      firstPaint: 0,
-      firstContentfulPaint: 0,
-    },
-    interactivity: {
-      totalBlockingTime: 0,
-      cumulativeLayoutShift: 0,
-    },
-    errors: [],
-  };
-
+  private metrics: PerformanceMetrics = this.initializeMetrics();
   private observers: Map<string, PerformanceObserver> = new Map();
   private clsEntries: LayoutShiftEntry[] = [];
   private longTasksStartTime: number = 0;
@@ -108,6 +81,16 @@ export class PerformanceTracker extends BaseTracker {
   private readonly LONG_TASK_THRESHOLD = 50; // ms
   private readonly RESOURCE_TIMING_BUFFER_SIZE = 150;
 
+  /**
+   * The document stays in place across client-side navigations, so metrics
+   * start over for the new route. Load timings belong to the first page only.
+   */
+  onRouteChange(): void {
+    this.metrics = this.initializeMetrics();
+    this.clsEntries = [];
+    this.trackNetworkInfo();
+  }
+
   async init(): Promise<void> {
     if (typeof window === 'undefined') return;
 
@@ -128,6 +111,36 @@ export class PerformanceTracker extends BaseTracker {
     }
   }
 
+  private initializeMetrics(): PerformanceMetrics {
+    return {
+      timing: {
+        loadTime: 0,
+        domInteractive: 0,
+        domComplete: 0,
+        ttfb: 0,
+        domLoad: 0,
+        windowLoad: 0,
+        fcp: 0,
+        lcp: 0,
+        fid: 0,
+        cls: 0,
+        inp: 0,
+        tbt: 0,
+      },
+      resources: [],
+      network: {},
+      paint: {
+        firstPaint: 0,
+        firstContentfulPaint: 0,
+      },
+      interactivity: {
+        totalBlockingTime: 0,
+        cumulativeLayoutShift: 0,
+      },
+      errors: [],
+    };
+  }
+
   getData(): any {
     return {
       ...this.metrics,
@@ -0,0 +1,294 @@
+import { BaseTracker } from './base';
+import { DOCUMENT_ID, DomSerializer, encodeReplayChunk } from '../replay';
+import type { MaskingConfig, MutationAdd, ReplayEvent } from '../replay';
+
+interface ReplayConfig extends MaskingConfig {
+  chunkInterval?: number; // ms between chunk uploads
+  maxChunkEvents?: number;
+  pointerInterval?: number; // ms between recorded pointer moves
+  scrollInterval?: number; // ms between recorded scrolls per target
+}
+
+/**
+ * Records what the visitor saw: a full DOM snapshot followed by incremental
+ * mutations, input, scroll and pointer events. Events are gathered into
+ * gzip-compressed chunks and sent to the `replay` endpoint. Inputs are
+ * masked by default; text and whole elements can be masked or blocked by
+ * selector through `trackerConfig.replay`.
+ */
+export class ReplayTracker extends BaseTracker {
+  protected config: ReplayConfig = {
+    chunkInterval: 10000,
+    maxChunkEvents: 500,
+    pointerInterval: 50,
+    scrollInterval: 100,
+    maskAllInputs: true,
+  };
+  private serializer: DomSerializer = new DomSerializer();
+  private observer: MutationObserver | null = null;
+  private buffer: ReplayEvent[] = [];
+  private sequence: number = 0;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private lastPointer: number = 0;
+  private lastScroll: WeakMap<EventTarget, number> = new WeakMap();
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(analytics: any) {
+    super(analytics);
+  }
+
+  async init(): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    try {
+      this.serializer = new DomSerializer(this.config);
+      this.takeSnapshot();
+
+      this.observer = new MutationObserver(this.handleMutations);
+      this.observer.observe(document, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true,
+      });
+
+      document.addEventListener('input', this.handleInput, { capture: true, passive: true });
+      document.addEventListener('change', this.handleInput, { capture: true, passive: true });
+      document.addEventListener('scroll', this.handleScroll, { capture: true, passive: true });
+      document.addEventListener('pointermove', this.handlePointerMove, { passive: true });
+      document.addEventListener('click', this.handleClick, { capture: true, passive: true });
+      window.addEventListener('resize', this.handleResize, { passive: true });
+
+      this.flushTimer = setInterval(() => this.flush(), this.config.chunkInterval);
+      this.log('Replay tracker initialized');
+    } catch (error) {
+      console.warn('Error initializing replay tracker:', error);
+    }
+  }
+
+  private takeSnapshot(): void {
+    this.serializer.reset();
+    const node = this.serializer.serialize(document.documentElement);
+    if (!node) return;
+
+    this.push({
+      type: 'snapshot',
+      timestamp: Date.now(),
+      url: location.href,
+      node,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      scroll: { x: window.scrollX, y: window.scrollY },
+    });
+  }
+
+  private handleMutations = (mutations: MutationRecord[]): void => {
+    const added: Set<Node> = new Set();
+    const removes: Array<{ parentId: number; id: number }> = [];
+    const attributes: Array<{ id: number; name: string; value: string | null }> = [];
+    const texts: Array<{ id: number; value: string }> = [];
+
+    mutations.forEach((mutation) => {
+      const targetId = this.serializer.getId(mutation.target);
+
+      switch (mutation.type) {
+        case 'childList':
+          mutation.removedNodes.forEach((node) => {
+            const id = this.serializer.getId(node);
+            if (targetId !== undefined && id !== undefined) {
+              removes.push({ parentId: targetId, id });
+            }
+            added.delete(node);
+          });
+          mutation.addedNodes.forEach((node) => added.add(node));
+          break;
+        case 'attributes': {
+          const name = mutation.attributeName as string;
+          if (targetId === undefined || name.startsWith('on')) return;
+          if (this.serializer.isBlocked(mutation.target)) return;
+          const element = mutation.target as Element;
+          const value =
+            name === 'value' && 'value' in element
+              ? this.serializer.inputValue(element as HTMLInputElement)
+              : element.getAttribute(name);
+          attributes.push({ id: targetId, name, value });
+          break;
+        }
+        case 'characterData':
+          if (targetId !== undefined && !this.serializer.isBlocked(mutation.target)) {
+            texts.push({ id: targetId, value: this.serializer.textValue(mutation.target as Text) });
+          }
+          break;
+      }
+    });
+
+    const adds = this.collectAdds(added);
+    if (adds.length || removes.length || attributes.length || texts.length) {
+      this.push({ type: 'mutation', timestamp: Date.now(), adds, removes, attributes, texts });
+    }
+  };
+
+  /**
+   * Serializes the outermost added nodes in document order. Each is inserted
+   * before the nearest following sibling the player already knows, so nodes
+   * added side by side in one batch land in the right order.
+   */
+  private collectAdds(added: Set<Node>): MutationAdd[] {
+    const roots = Array.from(added)
+      .filter((node) => node.isConnected && !this.hasAddedAncestor(node, added))
+      .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+
+    const adds: MutationAdd[] = [];
+    roots.forEach((node) => {
+      const parentId = node.parentNode ? this.serializer.getId(node.parentNode) : undefined;
+      if (parentId === undefined) return;
+      // The blocked placeholder has an id, but its content must stay off the record
+      if (this.serializer.isBlocked(node.parentNode as Node)) return;
+
+      let next = node.nextSibling;
+      while (next && (added.has(next) || this.serializer.getId(next) === undefined)) {
+        next = next.nextSibling;
+      }
+
+      const serialized = this.serializer.serialize(node);
+      if (serialized) {
+        adds.push({
+          parentId,
+          nextId: next ? (this.serializer.getId(next) as number) : null,
+          node: serialized,
+        });
+      }
+    });
+    return adds;
+  }
+
+  private hasAddedAncestor(node: Node, added: Set<Node>): boolean {
+    for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+      if (added.has(parent)) return true;
+    }
+    return false;
+  }
+
+  private handleInput = (event: Event): void => {
+    const target = event.target;
+    if (
+      !(target instanceof HTMLInputElement) &&
+      !(target instanceof HTMLTextAreaElement) &&
+      !(target instanceof HTMLSelectElement)
+    ) {
+      return;
+    }
+
+    const id = this.serializer.getId(target);
+    if (id === undefined) return;
+
+    if (target instanceof HTMLInputElement && (target.type === 'checkbox' || target.type === 'radio')) {
+      this.push({ type: 'input', timestamp: Date.now(), id, checked: target.checked });
+    } else {
+      this.push({ type: 'input', timestamp: Date.now(), id, value: this.serializer.inputValue(target) });
+    }
+  };
+
+  private handleScroll = (event: Event): void => {
+    const target = event.target;
+    if (!target) return;
+
+    const now = Date.now();
+    if (now - (this.lastScroll.get(target) || 0) < (this.config.scrollInterval as number)) return;
+    this.lastScroll.set(target, now);
+
+    if (target === document) {
+      this.push({ type: 'scroll', timestamp: now, id: DOCUMENT_ID, x: window.scrollX, y: window.scrollY });
+      return;
+    }
+
+    const id = this.serializer.getId(target as Node);
+    if (id !== undefined) {
+      const element = target as Element;
+      this.push({ type: 'scroll', timestamp: now, id, x: element.scrollLeft, y: element.scrollTop });
+    }
+  };
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    const now = Date.now();
+    if (now - this.lastPointer < (this.config.pointerInterval as number)) return;
+    this.lastPointer = now;
+    this.push({ type: 'pointer', timestamp: now, kind: 'move', x: event.clientX, y: event.clientY });
+  };
+
+  private handleClick = (event: MouseEvent): void => {
+    this.push({ type: 'pointer', timestamp: Date.now(), kind: 'click', x: event.clientX, y: event.clientY });
+  };
+
+  private handleResize = (): void => {
+    this.push({
+      type: 'viewport',
+      timestamp: Date.now(),
+      width: window.innerWidth,
+      height: window.innerHeight,
+    });
+  };
+
+  private push(event: ReplayEvent): void {
+    this.buffer.push(event);
+    if (this.buffer.length >= (this.config.maxChunkEvents as number)) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Encodes and sends the buffered events as one chunk. Chunks are chained
+   * so they are uploaded in sequence order.
+   */
+  private flush(unloading: boolean = false): Promise<void> {
+    if (this.buffer.length === 0) return this.sending;
+
+    const events = this.buffer;
+    this.buffer = [];
+    const sequence = this.sequence++;
+
+    this.sending = this.sending.then(async () => {
+      try {
+        // Redacted before encoding; the compressed chunk cannot be scanned
+        const redacted = this.analytics.redact ? this.analytics.redact(events) : events;
+        const chunk = await encodeReplayChunk(redacted, {
+          sessionId: this.analytics.sessionId,
+          sequence,
+        });
+        await this.analytics.send('replay', chunk, unloading);
+      } catch (error) {
+        console.warn(`Failed to send replay chunk ${sequence}:`, error);
+      }
+    });
+    return this.sending;
+  }
+
+  async onSessionEnd(): Promise<void> {
+    await this.flush(true);
+  }
+
+  getData(): any {
+    return {
+      chunksSent: this.sequence,
+      bufferedEvents: this.buffer.length,
+    };
+  }
+
+  cleanup(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    document.removeEventListener('input', this.handleInput, { capture: true });
+    document.removeEventListener('change', this.handleInput, { capture: true });
+    document.removeEventListener('scroll', this.handleScroll, { capture: true });
+    document.removeEventListener('pointermove', this.handlePointerMove);
+    document.removeEventListener('click', this.handleClick, { capture: true });
+    window.removeEventListener('resize', this.handleResize);
+
+    this.flush();
+  }
+}
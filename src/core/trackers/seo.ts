@@ -1,4 +1,5 @@
 import { BaseTracker } from './base';
+import { readJsonLd } from '../jsonld';
 
 interface ContentMetrics {
   content_id: string;
@@ -511,17 +512,7 @@ export class SEOTracker extends BaseTracker {
 	}
 
 	private getStructuredData(): any {
-		const scripts = Array.from(document.querySelectorAll('script[type="application/ld+json"]'));
-		const data: any[] = [];
-
-		scripts.forEach((script) => {
-			try {
-				const jsonData = JSON.parse(script.textContent || "");
-				data.push(jsonData);
-			} catch (error) {
-				console.error("Error parsing structured data:", error);
-			}
-		});
+		const data = readJsonLd();
 
 		return {
 			schemas: data,
@@ -1,4 +1,7 @@
 import { BaseTracker } from './base';
+import { randomId } from '../identity';
+import { TabCoordinator } from '../tabs';
+import type { AnalyticsEvent } from '../types';
 
 interface SessionLocation {
   country?: string;
@@ -52,8 +55,33 @@ interface SessionData {
   };
 }
 
+// What the leader tab shares with the others on each heartbeat
+interface SessionState {
+  id: string;
+  startTime: number;
+  engagement: SessionData['engagement'];
+}
+
+interface SessionConfig {
+  coordinateTabs?: boolean;
+}
+
+/**
+ * Tracks one visit across page loads. When `coordinateTabs` is on (the
+ * default), open tabs share a single session: one elected leader runs the
+ * heartbeat, counts active time and persists the session, while every tab
+ * reports its activity and page views so they are merged rather than
+ * counted once per tab.
+ */
 export class SessionTracker extends BaseTracker {
+  protected config: SessionConfig = {
+    coordinateTabs: true,
+  };
   private sessionData: SessionData;
+  private tabs: TabCoordinator | null = null;
+  private pendingInteractions: number = 0;
+  private syncTimeout: NodeJS.Timeout | null = null;
+  private readonly ACTIVITY_SYNC_DELAY = 1000;
   private readonly IDLE_THRESHOLD = 1800000; // 30 minutes in milliseconds
   private readonly STORAGE_KEY = 'thorbis_session';
   private readonly SESSION_TIMEOUT = 1800000; // 30 minutes
@@ -73,21 +101,36 @@ export class SessionTracker extends BaseTracker {
     if (typeof window === 'undefined') return;
 
     try {
-      // Check for existing session
+      // Continue the session another tab (or an earlier page load) started
       const existingSession = this.getStoredSession();
+      const linkedSession = this.analytics.linkedSession;
+      const resumed =
+        (!!existingSession && !this.isSessionExpired(existingSession)) || !!linkedSession;
       if (existingSession && !this.isSessionExpired(existingSession)) {
         this.sessionData = existingSession;
-        this.sessionData.startTime = Date.now(); // Refresh start time
+        this.addPage(window.location.pathname);
+      } else if (linkedSession) {
+        // Arrived through a decorated link from another of our domains
+        this.sessionData.id = linkedSession.id;
+        this.sessionData.startTime = linkedSession.startTime;
       }
+      this.storeSession();
+      this.shareSessionId();
 
       // Set up session tracking
       this.setupEventListeners();
-      this.startHeartbeat();
+      if (this.config.coordinateTabs) {
+        this.setupTabs();
+      } else {
+        this.startHeartbeat();
+      }
       this.trackDeviceInfo();
-      await this.trackLocationInfo();
 
-      // Track session start
-      this.trackSessionStart();
+      if (!resumed) {
+        this.trackSessionStart();
+      }
+
+      await this.trackLocationInfo();
 
       this.log('Session tracker initialized');
     } catch (error) {
@@ -97,6 +140,7 @@ export class SessionTracker extends BaseTracker {
 
   getData(): any {
     const currentTime = Date.now();
+    this.updateUser();
     return {
       ...this.sessionData,
       endTime: currentTime,
@@ -112,14 +156,25 @@ export class SessionTracker extends BaseTracker {
     };
   }
 
+  onEvent(event: AnalyticsEvent): void {
+    if (event.type === 'identify') {
+      this.updateUser();
+      return;
+    }
+    if (event.type !== 'page_view') return;
+
+    const path = event.data?.path || window.location.pathname;
+    this.addPage(path);
+    this.tabs?.post('session:page', { id: this.sessionData.id, path });
+  }
+
   cleanup(): void {
     // Clear intervals and timeouts
     if (this.activityTimeout) {
       clearTimeout(this.activityTimeout);
     }
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-    }
+    this.stopHeartbeat();
+    this.syncActivity();
 
     // Remove event listeners
     this.ACTIVITY_EVENTS.forEach(event => {
@@ -130,18 +185,22 @@ export class SessionTracker extends BaseTracker {
     // Save final session state
     this.storeSession();
 
-    // Track session end
-    this.trackSessionEnd();
+    // The session only ends with the last open tab
+    const lastTab = !this.tabs || this.tabs.peerCount === 0;
+    this.tabs?.close();
+    this.tabs = null;
+
+    if (lastTab) {
+      this.trackSessionEnd();
+    }
   }
 
   private initializeSessionData(): SessionData {
     return {
-      id: crypto.randomUUID(),
+      id: randomId(),
       startTime: Date.now(),
       events: [],
-      user: {
-        anonymousId: this.getAnonymousId(),
-      },
+      user: this.getUser(),
       device: {
         type: this.getDeviceType(),
         os: this.getOS(),
@@ -186,31 +245,127 @@ export class SessionTracker extends BaseTracker {
     document.addEventListener('visibilitychange', this.handleVisibilityChange);
   }
 
-  private handleActivity = (): void => {
-    const now = Date.now();
-    const timeSinceLastActive = now - this.sessionData.engagement.lastActiveTime;
+  private setupTabs(): void {
+    this.tabs = new TabCoordinator();
 
-    if (timeSinceLastActive < this.IDLE_THRESHOLD) {
-      this.sessionData.engagement.activeTime += timeSinceLastActive;
-    } else {
-      this.sessionData.engagement.idleTime += timeSinceLastActive;
+    this.tabs.on('session:activity', ({ id, lastActiveTime, interactions }) => {
+      if (id !== this.sessionData.id) return;
+      this.sessionData.engagement.interactions += interactions;
+      this.markActive(lastActiveTime);
+    });
+
+    this.tabs.on('session:page', ({ id, path }) => {
+      if (id !== this.sessionData.id) return;
+      this.addPage(path);
+      if (this.isLeader()) this.storeSession();
+    });
+
+    this.tabs.on('session:state', (state: SessionState) => {
+      if (!this.isLeader()) this.applyState(state);
+    });
+
+    this.tabs.onLeaderChange((leader) => {
+      if (!leader) {
+        this.stopHeartbeat();
+        return;
+      }
+
+      // Pick up whatever the previous leader last persisted
+      const stored = this.getStoredSession();
+      if (stored && !this.isSessionExpired(stored)) {
+        this.applyState(stored);
+      }
+      this.startHeartbeat();
+      this.log('Session leader elected', { tabId: this.tabs?.tabId });
+    });
+  }
+
+  /**
+   * Whether this tab speaks for the session, e.g. sends session_end. Always
+   * true when tabs are not coordinated.
+   */
+  isLeader(): boolean {
+    return !this.tabs || this.tabs.isLeader;
+  }
+
+  // Batches, session_end and the identity fallback follow the shared id
+  private shareSessionId(): void {
+    this.analytics.setSessionId?.(this.sessionData.id);
+  }
+
+  /**
+   * Adopts the leader's view of the session. Counters only move forward so
+   * a late message cannot undo activity this tab has already merged.
+   */
+  private applyState(state: SessionState): void {
+    if (state.id !== this.sessionData.id) {
+      this.sessionData = { ...this.sessionData, id: state.id, startTime: state.startTime };
+      this.sessionData.engagement = { ...state.engagement, pagesViewed: [...state.engagement.pagesViewed] };
+      this.shareSessionId();
+      return;
     }
 
-    this.sessionData.engagement.lastActiveTime = now;
+    const engagement = this.sessionData.engagement;
+    engagement.activeTime = Math.max(engagement.activeTime, state.engagement.activeTime);
+    engagement.idleTime = Math.max(engagement.idleTime, state.engagement.idleTime);
+    engagement.totalTimeSpent = Math.max(engagement.totalTimeSpent, state.engagement.totalTimeSpent);
+    engagement.interactions = Math.max(engagement.interactions, state.engagement.interactions);
+    engagement.lastActiveTime = Math.max(engagement.lastActiveTime, state.engagement.lastActiveTime);
+    state.engagement.pagesViewed.forEach((path) => this.addPage(path));
+  }
+
+  private addPage(path: string): void {
+    if (path && !this.sessionData.engagement.pagesViewed.includes(path)) {
+      this.sessionData.engagement.pagesViewed.push(path);
+    }
+  }
+
+  private handleActivity = (): void => {
     this.sessionData.engagement.interactions++;
+    this.markActive(Date.now());
+
+    // Batch activity for the other tabs rather than posting on every mousemove
+    if (this.tabs) {
+      this.pendingInteractions++;
+      if (!this.syncTimeout) {
+        this.syncTimeout = setTimeout(() => this.syncActivity(), this.ACTIVITY_SYNC_DELAY);
+      }
+    }
+  };
+
+  /**
+   * Moves the shared activity clock forward. Active time itself is counted
+   * by the leader's heartbeat, so activity in any tab is counted once.
+   */
+  private markActive(timestamp: number): void {
+    const engagement = this.sessionData.engagement;
+    engagement.lastActiveTime = Math.max(engagement.lastActiveTime, timestamp);
 
     // Reset activity timeout
     if (this.activityTimeout) {
       clearTimeout(this.activityTimeout);
     }
     this.activityTimeout = setTimeout(() => this.handleInactivity(), this.SESSION_TIMEOUT);
+  }
 
-    // Store session state
-    this.storeSession();
-  };
+  private syncActivity(): void {
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+      this.syncTimeout = null;
+    }
+    if (!this.tabs || this.pendingInteractions === 0) return;
+
+    this.tabs.post('session:activity', {
+      id: this.sessionData.id,
+      lastActiveTime: this.sessionData.engagement.lastActiveTime,
+      interactions: this.pendingInteractions,
+    });
+    this.pendingInteractions = 0;
+  }
 
   private handleVisibilityChange = (): void => {
     if (document.hidden) {
+      this.syncActivity();
       this.storeSession();
     } else {
       this.checkSessionValidity();
@@ -218,12 +373,25 @@ export class SessionTracker extends BaseTracker {
   };
 
   private startHeartbeat(): void {
+    if (this.heartbeatInterval) return;
     this.heartbeatInterval = setInterval(() => {
       this.updateSessionMetrics();
       this.storeSession();
+      this.tabs?.post('session:state', {
+        id: this.sessionData.id,
+        startTime: this.sessionData.startTime,
+        engagement: this.sessionData.engagement,
+      });
     }, this.HEARTBEAT_INTERVAL);
   }
 
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
   private updateSessionMetrics(): void {
     const now = Date.now();
     const timeSinceLastActive = now - this.sessionData.engagement.lastActiveTime;
@@ -239,19 +407,37 @@ export class SessionTracker extends BaseTracker {
   }
 
   private handleInactivity(): void {
+    // Followers wait for the leader to announce the next session
+    if (!this.isLeader() || !this.isSessionExpired(this.sessionData)) return;
+
     this.trackSessionEnd();
-    this.sessionData = this.initializeSessionData();
-    this.trackSessionStart();
+    this.startNewSession();
   }
 
   private checkSessionValidity(): void {
     const storedSession = this.getStoredSession();
-    if (!storedSession || this.isSessionExpired(storedSession)) {
-      this.sessionData = this.initializeSessionData();
-      this.trackSessionStart();
+    if (storedSession && !this.isSessionExpired(storedSession)) {
+      // Another tab may have moved the session on while this one was hidden
+      this.applyState(storedSession);
+      return;
+    }
+    if (this.isLeader() || !this.tabs?.peerCount) {
+      this.startNewSession();
     }
   }
 
+  private startNewSession(): void {
+    this.sessionData = this.initializeSessionData();
+    this.storeSession();
+    this.shareSessionId();
+    this.tabs?.post('session:state', {
+      id: this.sessionData.id,
+      startTime: this.sessionData.startTime,
+      engagement: this.sessionData.engagement,
+    });
+    this.trackSessionStart();
+  }
+
   private isSessionExpired(session: SessionData): boolean {
     return Date.now() - session.engagement.lastActiveTime > this.SESSION_TIMEOUT;
   }
@@ -294,13 +480,16 @@ export class SessionTracker extends BaseTracker {
     });
   }
 
-  private getAnonymousId(): string {
-    let id = localStorage.getItem('anonymous_id');
-    if (!id) {
-      id = crypto.randomUUID();
-      localStorage.setItem('anonymous_id', id);
-    }
-    return id;
+  private getUser(): SessionData['user'] {
+    const { anonymousId, userId } = this.analytics.getIdentity();
+    return userId
+      ? { id: userId, anonymousId, traits: this.analytics.getUserTraits() }
+      : { anonymousId };
+  }
+
+  // Identity can change mid-session on login or logout
+  private updateUser(): void {
+    this.sessionData.user = this.getUser();
   }
 
   private getDeviceType(): string {
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BeaconTransport, FetchTransport, TransportRouter, XHRTransport, createTransport, parseRetryAfter } from './transport';
+import type { TransportRequest } from './transport';
+
+const globals = globalThis as any;
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  delete globals.navigator;
+  globalThis.fetch = realFetch;
+  vi.useRealTimers();
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT')).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('createTransport', () => {
+  it('picks a built-in transport by name and passes custom ones through', () => {
+    const custom = { name: 'mine', send: async () => ({ ok: true, status: 200 }) };
+
+    expect(createTransport()).toBeInstanceOf(FetchTransport);
+    expect(createTransport('beacon')).toBeInstanceOf(BeaconTransport);
+    expect(createTransport('xhr')).toBeInstanceOf(XHRTransport);
+    expect(createTransport(custom)).toBe(custom);
+    expect(createTransport(async () => {}).name).toBe('custom');
+  });
+});
+
+describe('TransportRouter', () => {
+  it('routes each kind to its endpoint, falling back to the events endpoint', () => {
+    const router = new TransportRouter({ endpoints: { events: '/collect', replay: '/replay' } });
+
+    expect(router.resolveEndpoint('replay')).toBe('/replay');
+    expect(router.resolveEndpoint('sessions')).toBe('/collect');
+    expect(new TransportRouter().resolveEndpoint('insights')).toBe('/api/events');
+  });
+
+  it('hands custom transports a JSON request with the configured headers', async () => {
+    const requests: TransportRequest[] = [];
+    const router = new TransportRouter({
+      transport: async (request) => {
+        requests.push(request);
+      },
+      endpoints: { sessions: '/sessions' },
+      headers: { 'X-Api-Key': 'key' },
+    });
+
+    const response = await router.send('sessions', { id: 1 }, { unloading: true });
+
+    expect(response).toEqual({ ok: true, status: 200 });
+    expect(requests).toEqual([
+      {
+        kind: 'sessions',
+        url: '/sessions',
+        body: '{"id":1}',
+        headers: { 'X-Api-Key': 'key', 'Content-Type': 'application/json' },
+      },
+    ]);
+  });
+
+  it('switches built-in transports to sendBeacon while unloading', async () => {
+    const beacons: string[] = [];
+    globals.navigator = { sendBeacon: (url: string) => beacons.push(url) > 0 };
+    globalThis.fetch = vi.fn();
+
+    const response = await new TransportRouter().send('events', { id: 1 }, { unloading: true });
+
+    expect(response).toEqual({ ok: true, status: 202 });
+    expect(beacons).toEqual(['/api/events']);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it('queues unload beacons synchronously and uncompressed', async () => {
+    const beacons: { url: string; body: Blob }[] = [];
+    globals.navigator = { sendBeacon: (url: string, body: Blob) => beacons.push({ url, body }) > 0 };
+    const router = new TransportRouter({ compression: 'gzip' });
+
+    const sent = router.send('events', { data: 'x'.repeat(2000) }, { unloading: true });
+
+    expect(beacons).toHaveLength(1);
+    expect(beacons[0].url).toBe('/api/events');
+    expect(await beacons[0].body.text()).toBe(JSON.stringify({ data: 'x'.repeat(2000) }));
+    expect(await sent).toEqual({ ok: true, status: 202 });
+  });
+
+  it('splits large beacons into numbered chunks, all queued up front', async () => {
+    const beacons: { url: URL; body: Blob }[] = [];
+    globals.navigator = {
+      sendBeacon: (url: string, body: Blob) => beacons.push({ url: new URL(url, 'http://localhost'), body }) > 0,
+    };
+    const payload = { data: 'x'.repeat(130000) };
+
+    const sent = new TransportRouter().send('events', payload, { unloading: true });
+
+    expect(beacons).toHaveLength(3);
+    const params = beacons.map(({ url }) => Object.fromEntries(url.searchParams));
+    expect(params.map((param) => [param.index, param.total])).toEqual([
+      ['0', '3'],
+      ['1', '3'],
+      ['2', '3'],
+    ]);
+    expect(new Set(params.map((param) => param.chunk)).size).toBe(1);
+    expect(beacons.every(({ body }) => body.size <= 60000)).toBe(true);
+
+    const bodies = await Promise.all(beacons.map(({ body }) => body.text()));
+    expect(bodies.join('')).toBe(JSON.stringify(payload));
+    expect(await sent).toEqual({ ok: true, status: 202 });
+  });
+
+  it('passes the encoding of a compressed beacon as a param', async () => {
+    const urls: string[] = [];
+    globals.navigator = { sendBeacon: (url: string) => urls.push(url) > 0 };
+
+    await new TransportRouter({ transport: 'beacon', compression: 'gzip' }).send('events', { data: 'x'.repeat(2000) });
+
+    expect(urls).toEqual(['/api/events?encoding=gzip']);
+  });
+
+  it('turns compression off after a 415 and resends uncompressed', async () => {
+    const encodings: (string | undefined)[] = [];
+    const router = new TransportRouter({
+      compression: 'gzip',
+      transport: async (request) => {
+        encodings.push(request.headers['Content-Encoding']);
+        return request.headers['Content-Encoding'] ? { ok: false, status: 415 } : { ok: true, status: 200 };
+      },
+    });
+    const payload = { data: 'x'.repeat(2000) };
+
+    expect(await router.send('events', payload)).toEqual({ ok: true, status: 200 });
+    expect(await router.send('events', payload)).toEqual({ ok: true, status: 200 });
+    expect(encodings).toEqual(['gzip', undefined, undefined]);
+  });
+
+  it('falls back to fetch when the browser refuses a beacon', async () => {
+    globals.navigator = { sendBeacon: () => false };
+    globalThis.fetch = vi.fn(async () => new Response(null, { status: 200 }));
+
+    const response = await new TransportRouter({ transport: 'beacon' }).send('events', { id: 1 });
+
+    expect(response.ok).toBe(true);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the status and Retry-After of a fetch', async () => {
+    globalThis.fetch = vi.fn(async () => new Response(null, { status: 503, headers: { 'Retry-After': '5' } }));
+
+    const response = await new TransportRouter().send('events', { id: 1 });
+
+    expect(response).toEqual({ ok: false, status: 503, retryAfter: 5000 });
+  });
+});
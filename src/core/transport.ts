@@ -0,0 +1,292 @@
+import { compress, shouldCompress, splitBytes, toBytes } from './compression';
+import type { CompressionFormat } from './compression';
+import { randomId } from './identity';
+import type { RetryPolicy } from './types';
+
+export type EventKind = 'events' | 'sessions' | 'insights' | 'replay';
+
+export interface TransportRequest {
+  kind: EventKind;
+  url: string;
+  // Compressed payloads arrive as bytes with a Content-Encoding header
+  body: string | Uint8Array;
+  headers: Record<string, string>;
+}
+
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  retryAfter?: number; // ms, parsed from a Retry-After header
+}
+
+export interface Transport {
+  name: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+export type TransportFunction = (request: TransportRequest) => Promise<TransportResponse | void>;
+
+export type TransportOption = 'beacon' | 'fetch' | 'xhr' | Transport | TransportFunction;
+
+export interface TransportConfig {
+  transport?: TransportOption;
+  endpoints?: Partial<Record<EventKind, string>>;
+  compression?: boolean | CompressionFormat;
+  // Sent with every request, e.g. an API key for server-to-server calls
+  headers?: Record<string, string>;
+  debug?: boolean;
+}
+
+const DEFAULT_ENDPOINT = '/api/events';
+
+// sendBeacon and keepalive fetch share a 64KB in-flight budget; leave headroom
+const BEACON_LIMIT = 60000;
+
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class BeaconTransport implements Transport {
+  readonly name = 'beacon';
+  // The browser owns a beacon once queued, so there is nothing to retry
+  readonly retryPolicy = { maxAttempts: 1 };
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    if (typeof navigator === 'undefined' || !navigator.sendBeacon) {
+      return { ok: false, status: 0 };
+    }
+
+    const blob = new Blob([request.body], {
+      type: request.headers['Content-Type'] || 'application/json',
+    });
+    const queued = navigator.sendBeacon(request.url, blob);
+
+    // A beacon gives no response; "accepted" only means the browser queued it
+    return { ok: queued, status: queued ? 202 : 0 };
+  }
+}
+
+export class FetchTransport implements Transport {
+  readonly name = 'fetch';
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      // keepalive requests over the beacon budget are rejected outright
+      keepalive: toBytes(request.body).length <= BEACON_LIMIT,
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+    };
+  }
+}
+
+export class XHRTransport implements Transport {
+  readonly name = 'xhr';
+
+  send(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', request.url, true);
+      Object.entries(request.headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
+      });
+      xhr.onload = () => {
+        resolve({
+          ok: xhr.status >= 200 && xhr.status < 300,
+          status: xhr.status,
+          retryAfter: parseRetryAfter(xhr.getResponseHeader('Retry-After')),
+        });
+      };
+      xhr.onerror = () => reject(new Error('XHR transport failed'));
+      xhr.send(request.body);
+    });
+  }
+}
+
+class FunctionTransport implements Transport {
+  readonly name = 'custom';
+  readonly retryPolicy = { maxAttempts: 3 };
+  private readonly fn: TransportFunction;
+
+  constructor(fn: TransportFunction) {
+    this.fn = fn;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.fn(request);
+    return response || { ok: true, status: 200 };
+  }
+}
+
+export function createTransport(option: TransportOption = 'fetch'): Transport {
+  if (typeof option === 'function') return new FunctionTransport(option);
+  if (typeof option === 'object') return option;
+
+  switch (option) {
+    case 'beacon':
+      return new BeaconTransport();
+    case 'xhr':
+      return new XHRTransport();
+    default:
+      return new FetchTransport();
+  }
+}
+
+function withParams(url: string, params: Record<string, string>): string {
+  const query = new URLSearchParams(params).toString();
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
+
+/**
+ * Routes each kind of payload to its configured endpoint and hands it to the
+ * selected transport. Built-in transports switch to sendBeacon while the page
+ * is unloading; custom transports are always used as-is.
+ *
+ * When compression is enabled, bodies are gzipped (or deflated) and labelled
+ * with Content-Encoding, except for unload beacons, which cannot wait on the
+ * compression stream. A 415 from the server turns compression off for the
+ * rest of the session. Beacons cannot carry headers, so the encoding and any
+ * chunking metadata travel as query parameters instead.
+ */
+export class TransportRouter {
+  private readonly config: TransportConfig;
+  private readonly transport: Transport;
+  private readonly beacon = new BeaconTransport();
+  private readonly fallback = new FetchTransport();
+  private compression: CompressionFormat | null;
+
+  constructor(config: TransportConfig = {}) {
+    this.config = config;
+    this.transport = createTransport(config.transport);
+    this.compression =
+      config.compression === true ? 'gzip' : config.compression || null;
+  }
+
+  get name(): string {
+    return this.transport.name;
+  }
+
+  get retryPolicy(): Partial<RetryPolicy> | undefined {
+    return this.transport.retryPolicy;
+  }
+
+  resolveEndpoint(kind: EventKind): string {
+    return this.config.endpoints?.[kind] || this.config.endpoints?.events || DEFAULT_ENDPOINT;
+  }
+
+  async send(
+    kind: EventKind,
+    payload: unknown,
+    options: { unloading?: boolean } = {}
+  ): Promise<TransportResponse> {
+    // Compressing awaits a stream, and the page may be gone before it
+    // settles, so unload beacons go out uncompressed and synchronously
+    if (options.unloading && this.isBuiltIn()) {
+      return this.sendBeacon(this.createRequest(kind, payload));
+    }
+
+    const request = await this.compressRequest(this.createRequest(kind, payload));
+
+    if (this.transport instanceof BeaconTransport) {
+      return this.sendBeacon(request);
+    }
+
+    let response = await this.transport.send(request);
+
+    if (response.status === 415 && request.headers['Content-Encoding']) {
+      this.compression = null;
+      response = await this.transport.send(this.createRequest(kind, payload));
+    }
+
+    if (this.config.debug) {
+      console.log(`🚚 ${this.transport.name} → ${request.url}:`, response.status);
+    }
+
+    return response;
+  }
+
+  private createRequest(kind: EventKind, payload: unknown): TransportRequest {
+    return {
+      kind,
+      url: this.resolveEndpoint(kind),
+      body: JSON.stringify(payload),
+      headers: { ...this.config.headers, 'Content-Type': 'application/json' },
+    };
+  }
+
+  private async compressRequest(request: TransportRequest): Promise<TransportRequest> {
+    const body = request.body as string;
+    if (!this.compression || !shouldCompress(body)) return request;
+
+    try {
+      return {
+        ...request,
+        body: await compress(body, this.compression),
+        headers: { ...request.headers, 'Content-Encoding': this.compression },
+      };
+    } catch (error) {
+      console.warn('Compression failed, sending uncompressed:', error);
+      return request;
+    }
+  }
+
+  /**
+   * Sends through sendBeacon, splitting bodies over the beacon budget into
+   * numbered chunks the collector reassembles by chunk id. Every chunk is
+   * queued before anything is awaited, so none are lost to an unload.
+   */
+  private async sendBeacon(request: TransportRequest): Promise<TransportResponse> {
+    const params: Record<string, string> = {};
+    if (request.headers['Content-Encoding']) {
+      params.encoding = request.headers['Content-Encoding'];
+    }
+
+    const bytes = toBytes(request.body);
+    const bodies =
+      bytes.length > BEACON_LIMIT ? splitBytes(bytes, BEACON_LIMIT) : [request.body];
+    const chunkId = bodies.length > 1 ? randomId() : null;
+
+    const parts = bodies.map((body, index): TransportRequest => {
+      const chunkParams = chunkId
+        ? { ...params, chunk: chunkId, index: String(index), total: String(bodies.length) }
+        : params;
+      return {
+        ...request,
+        url: Object.keys(chunkParams).length ? withParams(request.url, chunkParams) : request.url,
+        body,
+      };
+    });
+    const queued = parts.map((part) => this.beacon.send(part));
+
+    for (let index = 0; index < parts.length; index++) {
+      let response = await queued[index];
+      if (!response.ok) {
+        response = await this.fallback.send(parts[index]);
+      }
+      if (!response.ok) return response;
+    }
+
+    return { ok: true, status: 202 };
+  }
+
+  private isBuiltIn(): boolean {
+    return (
+      this.transport instanceof BeaconTransport ||
+      this.transport instanceof FetchTransport ||
+      this.transport instanceof XHRTransport
+    );
+  }
+}
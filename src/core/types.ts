@@ -45,3 +45,35 @@ export interface AnalyticsConfig {
   batchSize?: number;
   flushInterval?: number;
 }
+
+export type EventProperties = Record<string, any>;
+
+export type UserTraits = Record<string, any>;
+
+export interface AnalyticsEvent {
+  id?: string;
+  type: string;
+  data: EventProperties;
+  context?: Record<string, any>;
+  userId?: string;
+  timestamp: number;
+  sampling?: {
+    rate: number;
+    dropped?: number;
+  };
+}
+
+export interface EventBatch {
+  batchId: string;
+  sessionId: string;
+  sequence: number;
+  sentAt: number;
+  events: AnalyticsEvent[];
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: number; // 0-1, fraction of the delay that is randomized
+}
@@ -1 +1,79 @@
-export { Thorbis } from './components';
+export {
+  Thorbis,
+  useExperiment,
+  useFunnel,
+  useIdentify,
+  useImpression,
+  useInsights,
+  usePageView,
+  useThorbis,
+  useTrack,
+} from './components';
+export { HeatmapOverlay, ReplayPlayer } from './components';
+export type {
+  HeatmapOverlayProps,
+  ImpressionOptions,
+  ReplayPlayerProps,
+  ThorbisProps,
+} from './components';
+export { decodeReplayChunks } from './core/replay';
+export type { MaskingConfig, ReplayChunk, ReplayEvent } from './core/replay';
+export { ThorbisAnalytics } from './core/analytics';
+export { BaseTracker } from './core/trackers/base';
+export type { TrackerDefinition } from './core/registry';
+export { enrich } from './core/middleware';
+export type {
+  EventMiddleware,
+  MiddlewareContext,
+  MiddlewareDefinition,
+} from './core/middleware';
+export { explainRedaction } from './core/redaction';
+export type {
+  BuiltInRedaction,
+  RedactionConfig,
+  RedactionRule,
+} from './core/redaction';
+export type { Identity } from './core/identity';
+export type { EventProperties, UserTraits } from './core/types';
+export type {
+  Transport,
+  TransportFunction,
+  TransportRequest,
+  TransportResponse,
+} from './core/transport';
+export type {
+  DeadLetter,
+  DeliveryStats,
+  DeliveryStatusEvent,
+} from './core/delivery';
+export type {
+  ConsentCategory,
+  ConsentConfig,
+  ConsentState,
+} from './core/consent';
+export type { CrossDomainConfig, LinkToken } from './core/crossdomain';
+export { computeCredit, parseTouch } from './core/attribution';
+export type { AttributionModel, Channel, Touch, TouchCredit } from './core/attribution';
+export type { FunnelDefinition, FunnelState, FunnelStep } from './core/funnels';
+export { assignVariant } from './core/experiments';
+export type { ExperimentDefinition, ExperimentVariant } from './core/experiments';
+export { computeLift, summarizeExperiment } from './core/stats';
+export type { ConversionCounts, LiftResult, VariantSummary } from './core/stats';
+export { productsFromJsonLd } from './core/ecommerce';
+export type {
+  EcommerceEventMap,
+  EcommerceEventType,
+  EcommerceOrder,
+  EcommerceProduct,
+  LineItem,
+} from './core/ecommerce';
+export type { InsightsConfig } from './core/insights';
+export type { AIInsight } from './core/trackers/types';
+export { exportHeatmapPng, filterHeatmap, segmentHeatmap } from './core/heatmap';
+export type {
+  DeviceBucket,
+  HeatmapMode,
+  HeatmapPoint,
+  HeatmapSnapshot,
+  ScrollSample,
+} from './core/heatmap';
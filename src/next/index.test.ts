@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { toRouteTemplate } from './index';
+
+describe('toRouteTemplate', () => {
+  it('replaces dynamic segments with their param names', () => {
+    expect(toRouteTemplate('/blog/hello', { slug: 'hello' })).toBe('/blog/[slug]');
+    expect(toRouteTemplate('/shop/shoes/42', { category: 'shoes', id: '42' })).toBe('/shop/[category]/[id]');
+  });
+
+  it('replaces catch-all segments', () => {
+    expect(toRouteTemplate('/docs/a/b/c', { path: ['a', 'b', 'c'] })).toBe('/docs/[...path]');
+  });
+
+  it('replaces the segment the param came from when a value repeats', () => {
+    expect(toRouteTemplate('/a/a', { id: 'a' })).toBe('/a/[id]');
+    expect(toRouteTemplate('/team/team/team', { org: 'team', member: 'team' })).toBe('/team/[org]/[member]');
+  });
+
+  it('matches encoded values', () => {
+    expect(toRouteTemplate('/tags/c%2B%2B', { tag: 'c++' })).toBe('/tags/[tag]');
+  });
+
+  it('returns static paths unchanged', () => {
+    expect(toRouteTemplate('/about', {})).toBe('/about');
+    expect(toRouteTemplate('/about', null)).toBe('/about');
+  });
+});
@@ -0,0 +1,79 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useParams, usePathname, useSearchParams } from 'next/navigation';
+import { Thorbis, usePageView } from '../components';
+import type { ThorbisProps } from '../components';
+
+type RouteParams = Record<string, string | string[]>;
+
+/**
+ * Rebuilds the App Router template for a concrete path, so page views of
+ * `/blog/hello` and `/blog/world` both carry `route: '/blog/[slug]'`.
+ */
+export function toRouteTemplate(pathname: string, params: RouteParams | null): string {
+  if (!params) return pathname;
+
+  // Params follow the route's segment order; matching them from the end
+  // replaces the segment a param came from when a value repeats (`/a/a`)
+  const segments = pathname.split('/');
+  let end = segments.length;
+  Object.entries(params)
+    .reverse()
+    .forEach(([name, value]) => {
+      const values = (Array.isArray(value) ? value : [value]).map(encodeURIComponent);
+      if (values.length === 0) return;
+
+      for (let start = end - values.length; start >= 1; start--) {
+        if (values.every((part, index) => segments[start + index] === part)) {
+          segments.splice(start, values.length, Array.isArray(value) ? `[...${name}]` : `[${name}]`);
+          end = start;
+          return;
+        }
+      }
+    });
+  return segments.join('/');
+}
+
+/**
+ * Records a page view on every App Router navigation. Render it inside
+ * <Thorbis> when not using <ThorbisNext>.
+ */
+export function NextPageViews() {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const params = useParams() as RouteParams | null;
+
+  usePageView(
+    {
+      path: pathname,
+      search: searchParams?.toString() ? `?${searchParams.toString()}` : '',
+      route: toRouteTemplate(pathname, params),
+    },
+    { navigation: true }
+  );
+
+  return null;
+}
+
+/**
+ * <Thorbis> for the Next App Router. It can be rendered from a server
+ * component layout. Route changes are reported from the router instead of
+ * patched history methods, so each navigation is counted once.
+ */
+export const ThorbisNext = ({ children, trackerConfig, ...config }: ThorbisProps) => (
+  <Thorbis
+    {...config}
+    trackerConfig={{
+      ...trackerConfig,
+      navigation: { ...trackerConfig?.navigation, interceptHistory: false },
+      pageViews: { ...trackerConfig?.pageViews, trackInitialPageView: false },
+    }}
+  >
+    {/* useSearchParams needs a Suspense boundary to keep static rendering */}
+    <Suspense fallback={null}>
+      <NextPageViews />
+    </Suspense>
+    {children}
+  </Thorbis>
+);
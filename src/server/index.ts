@@ -0,0 +1,210 @@
+import { DeliveryManager } from '../core/delivery';
+import type { DeadLetter, DeliveryStats } from '../core/delivery';
+import {
+  IDENTITY_COOKIE,
+  IDENTITY_HEADERS,
+  decodeIdentity,
+  randomId,
+} from '../core/identity';
+import type { Identity } from '../core/identity';
+import { MiddlewarePipeline } from '../core/middleware';
+import type { EventMiddleware, MiddlewareDefinition } from '../core/middleware';
+import { EventQueue } from '../core/queue';
+import { Redactor } from '../core/redaction';
+import { TransportRouter } from '../core/transport';
+import type { AnalyticsEvent, EventBatch, EventProperties, UserTraits } from '../core/types';
+import type { ServerConfig } from '../types';
+
+export type { Identity } from '../core/identity';
+export type { AnalyticsEvent, EventBatch, EventProperties, UserTraits } from '../core/types';
+export type { ServerConfig } from '../types';
+
+type HeaderValue = string | string[] | undefined;
+
+// Web `Request`/`Headers` (edge, Next route handlers) or Node's IncomingMessage
+type RequestLike =
+  | { headers: Headers }
+  | { headers: Record<string, HeaderValue> };
+
+// Server events without a browser to link to still need a stable session
+const SERVER_SESSION = 'server';
+
+function readHeader(request: RequestLike, name: string): string | undefined {
+  const { headers } = request;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, HeaderValue>)[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readCookie(header: string | undefined, name: string): string | undefined {
+  return header
+    ?.split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+}
+
+/**
+ * Reads the browser identity from the `x-thorbis-*` headers or, when the
+ * client runs with `identityCookie`, from the identity cookie.
+ */
+export function identityFromRequest(request: RequestLike): Identity | null {
+  const sessionId = readHeader(request, IDENTITY_HEADERS.sessionId);
+  const anonymousId = readHeader(request, IDENTITY_HEADERS.anonymousId);
+
+  if (sessionId && anonymousId) {
+    return {
+      sessionId,
+      anonymousId,
+      userId: readHeader(request, IDENTITY_HEADERS.userId),
+    };
+  }
+
+  return decodeIdentity(readCookie(readHeader(request, 'cookie'), IDENTITY_COOKIE));
+}
+
+/**
+ * Server-side counterpart of ThorbisAnalytics for API routes, middleware and
+ * SSR. Uses the same event schema, batching and delivery, and only relies on
+ * fetch and timers, so it runs in Node 18+ and Web-standard edge runtimes.
+ *
+ * Edge and serverless functions may be frozen as soon as the response is
+ * sent: await `flush()` (or hand it to `waitUntil`) before returning.
+ */
+export class ThorbisServer {
+  private readonly config: ServerConfig;
+  private readonly eventQueue: EventQueue;
+  private readonly delivery: DeliveryManager;
+  private readonly middleware: MiddlewarePipeline;
+  private readonly redactor: Redactor | null;
+  private pipelineTail: Promise<void> = Promise.resolve();
+
+  constructor(config: ServerConfig) {
+    this.config = config;
+    this.middleware = new MiddlewarePipeline(config.middleware, config.debug);
+    this.redactor =
+      config.redaction === false
+        ? null
+        : new Redactor(config.redaction === true ? {} : config.redaction);
+
+    const transport = new TransportRouter({
+      transport: config.transport || 'fetch',
+      endpoints: config.endpoints,
+      headers: config.headers,
+      compression: config.compression,
+      debug: config.debug,
+    });
+    this.delivery = new DeliveryManager({
+      transport,
+      retry: config.retry,
+      debug: config.debug,
+    });
+    this.eventQueue = new EventQueue({
+      sessionId: SERVER_SESSION,
+      maxBatchSize: config.batchConfig?.maxBatchSize || 20,
+      flushInterval: config.batchConfig?.flushInterval || 1000,
+      send: this.sendBatch,
+      debug: config.debug,
+    });
+  }
+
+  public track(event: string, properties: EventProperties = {}, identity?: Identity | null): void {
+    this.record(event, properties, identity);
+  }
+
+  public page(properties: EventProperties = {}, identity?: Identity | null): void {
+    this.record('page_view', properties, identity);
+  }
+
+  public identify(userId: string, traits: UserTraits = {}, identity?: Identity | null): void {
+    this.record(
+      'identify',
+      { userId, anonymousId: identity?.anonymousId, traits },
+      { ...identity, userId }
+    );
+  }
+
+  /**
+   * Links an earlier id (by default the visitor's anonymous id) to a user,
+   * e.g. when login is handled server-side.
+   */
+  public alias(userId: string, previousId?: string, identity?: Identity | null): void {
+    const from = previousId || identity?.anonymousId;
+    if (!from) {
+      console.warn('Cannot alias without a previous id or identity');
+      return;
+    }
+    this.record('alias', { userId, previousId: from }, { ...identity, userId });
+  }
+
+  public use(middleware: EventMiddleware | MiddlewareDefinition): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  /**
+   * Sends everything recorded so far, including events still in middleware.
+   */
+  public async flush(): Promise<void> {
+    await this.pipelineTail;
+    await this.eventQueue.flush();
+  }
+
+  public getDeliveryStats(): DeliveryStats {
+    return this.delivery.getStats();
+  }
+
+  public getDeadLetters(): DeadLetter[] {
+    return this.delivery.getDeadLetters();
+  }
+
+  private record(
+    type: string,
+    data: Record<string, any>,
+    identity?: Partial<Identity> | null
+  ): void {
+    const context = {
+      source: 'server',
+      sessionId: identity?.sessionId || SERVER_SESSION,
+      anonymousId: identity?.anonymousId,
+    };
+    const event: AnalyticsEvent = {
+      id: randomId(),
+      type,
+      data,
+      context,
+      userId: identity?.userId,
+      timestamp: Date.now(),
+    };
+
+    if (this.middleware.size === 0) {
+      this.eventQueue.enqueue(event);
+      return;
+    }
+
+    this.pipelineTail = this.pipelineTail
+      .then(() =>
+        this.middleware.run(event, {
+          sessionId: context.sessionId,
+          anonymousId: context.anonymousId || context.sessionId,
+          userId: identity?.userId,
+        })
+      )
+      .then((result) => {
+        if (result) this.eventQueue.enqueue(result);
+      })
+      // A rejected tail would drop every later event, so only this one is lost
+      .catch((error) => console.warn(`Failed to process ${type} event:`, error));
+  }
+
+  private sendBatch = async (batch: EventBatch): Promise<void> => {
+    const payload = { type: 'batch', ...batch };
+    await this.delivery.deliver('events', this.redactor ? this.redactor.redact(payload) : payload);
+
+    if (this.config.debug) {
+      console.log(`📤 Sent server batch ${batch.sequence}:`, batch.events.length, 'events');
+    }
+  };
+}
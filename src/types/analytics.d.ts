@@ -1,7 +1,13 @@
 declare module 'analytics' {
   export interface AnalyticsInstance {
-    track(eventName: string, data?: Record<string, any>): Promise<void>;
+    track(
+      eventName: string,
+      data?: Record<string, any>,
+      options?: Record<string, any>
+    ): Promise<void>;
     page(data?: Record<string, any>): Promise<void>;
+    identify(userId: string, traits?: Record<string, any>): Promise<void>;
+    reset(): Promise<void>;
   }
 
   export interface AnalyticsConfig {
@@ -1,3 +1,16 @@
+import type { CompressionFormat } from '../core/compression';
+import type { ConsentConfig } from '../core/consent';
+import type { CrossDomainConfig } from '../core/crossdomain';
+import type { ExperimentDefinition } from '../core/experiments';
+import type { FunnelDefinition } from '../core/funnels';
+import type { InsightsConfig } from '../core/insights';
+import type { EventMiddleware, MiddlewareDefinition } from '../core/middleware';
+import type { RedactionConfig } from '../core/redaction';
+import type { TrackerDefinition } from '../core/registry';
+import type { SamplingConfig, ThrottleConfig } from '../core/sampling';
+import type { TransportOption } from '../core/transport';
+import type { RetryPolicy } from '../core/types';
+
 export interface AnalyticsConfig {
   sessionId: string;
   debug?: boolean;
@@ -14,11 +27,65 @@ export interface AnalyticsConfig {
     error?: boolean;
     media?: boolean;
     search?: boolean;
+    attribution?: boolean;
+    ecommerce?: boolean;
+    // Session replay is opt-in
+    replay?: boolean;
+  };
+  batchConfig?: {
+    maxBatchSize?: number;
+    flushInterval?: number;
+  };
+  endpoints?: {
+    events?: string;
+    sessions?: string;
+    insights?: string;
+    replay?: string;
   };
+  transport?: TransportOption;
+  storageType?: 'localStorage' | 'sessionStorage' | 'indexedDB';
+  outbox?: {
+    maxBytes?: number;
+    maxAge?: number;
+  };
+  retry?: Partial<RetryPolicy>;
+  compression?: boolean | CompressionFormat;
+  sampling?: number | SamplingConfig;
+  throttle?: ThrottleConfig;
+  trackers?: TrackerDefinition[];
+  trackerConfig?: Record<string, Record<string, any>>;
+  middleware?: Array<EventMiddleware | MiddlewareDefinition>;
+  consent?: ConsentConfig;
+  // On by default; pass false to send payloads unredacted
+  redaction?: boolean | RedactionConfig;
+  // Share session and anonymous ids with the server SDK through a cookie
+  identityCookie?: boolean;
+  // Continue sessions across the listed domains through signed link tokens
+  crossDomain?: CrossDomainConfig;
+  funnels?: FunnelDefinition[];
+  experiments?: ExperimentDefinition[];
+  // Local churn-risk and anomaly insights; off by default
+  insights?: boolean | InsightsConfig;
+}
+
+export interface ServerConfig {
+  // Absolute URLs; there is no page origin to resolve paths against
+  endpoints: {
+    events: string;
+    sessions?: string;
+    insights?: string;
+  };
+  debug?: boolean;
   batchConfig?: {
     maxBatchSize?: number;
     flushInterval?: number;
   };
+  transport?: TransportOption;
+  headers?: Record<string, string>;
+  retry?: Partial<RetryPolicy>;
+  compression?: boolean | CompressionFormat;
+  middleware?: Array<EventMiddleware | MiddlewareDefinition>;
+  redaction?: boolean | RedactionConfig;
 }
 
 export interface PageViewData {
@@ -83,7 +150,6 @@ export interface HoverData {
 declare global {
   interface Window {
     // Framework detection
-    __NEXT_DATA__?: any;
     __NUXT__?: any;
     next?: any;
     React?: { version: string };
@@ -2,4 +2,7 @@ declare module 'vitest' {
   export const describe: (name: string, fn: () => void) => void;
   export const it: (name: string, fn: () => void) => void;
   export const expect: any;
+  export const beforeEach: (fn: () => void) => void;
+  export const afterEach: (fn: () => void) => void;
+  export const vi: any;
 }
@@ -1,13 +1,23 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-	entry: ["src/index.ts"],
+	entry: {
+		index: "src/index.ts",
+		"next/index": "src/next/index.tsx",
+		"server/index": "src/server/index.ts",
+		"collector/index": "src/collector/index.ts",
+	},
 	format: ["esm", "cjs"],
 	dts: {
-		entry: "./src/index.ts",
+		entry: {
+			index: "./src/index.ts",
+			"next/index": "./src/next/index.tsx",
+			"server/index": "./src/server/index.ts",
+			"collector/index": "./src/collector/index.ts",
+		},
 		resolve: true,
 	},
-	splitting: false,
+	splitting: true,
 	sourcemap: true,
 	clean: true,
 	treeshake: true,